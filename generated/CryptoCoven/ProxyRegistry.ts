@@ -0,0 +1,36 @@
+// THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+
+import {
+  ethereum,
+  JSONValue,
+  TypedMap,
+  Entity,
+  Bytes,
+  Address,
+  BigInt,
+} from "@graphprotocol/graph-ts";
+
+export class ProxyRegistry extends ethereum.SmartContract {
+  static bind(address: Address): ProxyRegistry {
+    return new ProxyRegistry("ProxyRegistry", address);
+  }
+
+  proxies(param0: Address): Address {
+    let result = super.call("proxies", "proxies(address):(address)", [
+      ethereum.Value.fromAddress(param0),
+    ]);
+
+    return result[0].toAddress();
+  }
+
+  try_proxies(param0: Address): ethereum.CallResult<Address> {
+    let result = super.tryCall("proxies", "proxies(address):(address)", [
+      ethereum.Value.fromAddress(param0),
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+}
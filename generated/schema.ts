@@ -218,6 +218,110 @@ export class Account extends Entity {
     this.set("totalAmountBalance", Value.fromBigInt(value));
   }
 
+  get currentTokensHeld(): BigInt {
+    let value = this.get("currentTokensHeld");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set currentTokensHeld(value: BigInt) {
+    this.set("currentTokensHeld", Value.fromBigInt(value));
+  }
+
+  get completedHoldCount(): BigInt {
+    let value = this.get("completedHoldCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set completedHoldCount(value: BigInt) {
+    this.set("completedHoldCount", Value.fromBigInt(value));
+  }
+
+  get totalHoldDuration(): BigInt {
+    let value = this.get("totalHoldDuration");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalHoldDuration(value: BigInt) {
+    this.set("totalHoldDuration", Value.fromBigInt(value));
+  }
+
+  get averageHoldDuration(): BigInt {
+    let value = this.get("averageHoldDuration");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set averageHoldDuration(value: BigInt) {
+    this.set("averageHoldDuration", Value.fromBigInt(value));
+  }
+
+  get longestHold(): BigInt {
+    let value = this.get("longestHold");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set longestHold(value: BigInt) {
+    this.set("longestHold", Value.fromBigInt(value));
+  }
+
+  get holdingScore(): BigInt {
+    let value = this.get("holdingScore");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set holdingScore(value: BigInt) {
+    this.set("holdingScore", Value.fromBigInt(value));
+  }
+
+  get holdingScoreUpdatedAt(): BigInt {
+    let value = this.get("holdingScoreUpdatedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set holdingScoreUpdatedAt(value: BigInt) {
+    this.set("holdingScoreUpdatedAt", Value.fromBigInt(value));
+  }
+
+  get primarySpend(): BigInt {
+    let value = this.get("primarySpend");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set primarySpend(value: BigInt) {
+    this.set("primarySpend", Value.fromBigInt(value));
+  }
+
   get transactions(): TransactionLoader {
     return new TransactionLoader(
       "Account",
@@ -234,6 +338,38 @@ export class Account extends Entity {
     );
   }
 
+  get ownerships(): OwnershipLoader {
+    return new OwnershipLoader(
+      "Account",
+      this.get("id")!.toString(),
+      "ownerships",
+    );
+  }
+
+  get operatorApprovals(): OperatorApprovalLoader {
+    return new OperatorApprovalLoader(
+      "Account",
+      this.get("id")!.toString(),
+      "operatorApprovals",
+    );
+  }
+
+  get securityAlerts(): SecurityAlertLoader {
+    return new SecurityAlertLoader(
+      "Account",
+      this.get("id")!.toString(),
+      "securityAlerts",
+    );
+  }
+
+  get purchases(): SaleLoader {
+    return new SaleLoader("Account", this.get("id")!.toString(), "purchases");
+  }
+
+  get sales(): SaleLoader {
+    return new SaleLoader("Account", this.get("id")!.toString(), "sales");
+  }
+
   get logIndex(): BigInt {
     let value = this.get("logIndex");
     if (!value || value.kind == ValueKind.NULL) {
@@ -389,12 +525,4444 @@ export class AccountHistory extends Entity {
     }
   }
 
-  set saleCount(value: BigInt) {
-    this.set("saleCount", Value.fromBigInt(value));
+  set saleCount(value: BigInt) {
+    this.set("saleCount", Value.fromBigInt(value));
+  }
+
+  get accountType(): string {
+    let value = this.get("accountType");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set accountType(value: string) {
+    this.set("accountType", Value.fromString(value));
+  }
+
+  get logIndex(): BigInt {
+    let value = this.get("logIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set logIndex(value: BigInt) {
+    this.set("logIndex", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class CovenToken extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save CovenToken entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type CovenToken must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("CovenToken", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): CovenToken | null {
+    return changetype<CovenToken | null>(store.get_in_block("CovenToken", id));
+  }
+
+  static load(id: string): CovenToken | null {
+    return changetype<CovenToken | null>(store.get("CovenToken", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get from(): string {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string) {
+    this.set("from", Value.fromString(value));
+  }
+
+  get to(): string {
+    let value = this.get("to");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set to(value: string) {
+    this.set("to", Value.fromString(value));
+  }
+
+  get owner(): Bytes {
+    let value = this.get("owner");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set owner(value: Bytes) {
+    this.set("owner", Value.fromBytes(value));
+  }
+
+  get approved(): Bytes | null {
+    let value = this.get("approved");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set approved(value: Bytes | null) {
+    if (!value) {
+      this.unset("approved");
+    } else {
+      this.set("approved", Value.fromBytes(<Bytes>value));
+    }
+  }
+
+  get burned(): boolean {
+    let value = this.get("burned");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set burned(value: boolean) {
+    this.set("burned", Value.fromBoolean(value));
+  }
+
+  get burn(): string | null {
+    let value = this.get("burn");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set burn(value: string | null) {
+    if (!value) {
+      this.unset("burn");
+    } else {
+      this.set("burn", Value.fromString(<string>value));
+    }
+  }
+
+  get originalMinter(): string | null {
+    let value = this.get("originalMinter");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set originalMinter(value: string | null) {
+    if (!value) {
+      this.unset("originalMinter");
+    } else {
+      this.set("originalMinter", Value.fromString(<string>value));
+    }
+  }
+
+  get ownerCount(): BigInt {
+    let value = this.get("ownerCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set ownerCount(value: BigInt) {
+    this.set("ownerCount", Value.fromBigInt(value));
+  }
+
+  get currentOwnership(): string | null {
+    let value = this.get("currentOwnership");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set currentOwnership(value: string | null) {
+    if (!value) {
+      this.unset("currentOwnership");
+    } else {
+      this.set("currentOwnership", Value.fromString(<string>value));
+    }
+  }
+
+  get ownerships(): OwnershipLoader {
+    return new OwnershipLoader(
+      "CovenToken",
+      this.get("id")!.toString(),
+      "ownerships",
+    );
+  }
+
+  get sales(): SaleLoader {
+    return new SaleLoader("CovenToken", this.get("id")!.toString(), "sales");
+  }
+
+  get tokenId(): string {
+    let value = this.get("tokenId");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set tokenId(value: string) {
+    this.set("tokenId", Value.fromString(value));
+  }
+
+  get tokenMintCount(): BigInt {
+    let value = this.get("tokenMintCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set tokenMintCount(value: BigInt) {
+    this.set("tokenMintCount", Value.fromBigInt(value));
+  }
+
+  get mintPhase(): string | null {
+    let value = this.get("mintPhase");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set mintPhase(value: string | null) {
+    if (!value) {
+      this.unset("mintPhase");
+    } else {
+      this.set("mintPhase", Value.fromString(<string>value));
+    }
+  }
+
+  get mintEntryPoint(): string | null {
+    let value = this.get("mintEntryPoint");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set mintEntryPoint(value: string | null) {
+    if (!value) {
+      this.unset("mintEntryPoint");
+    } else {
+      this.set("mintEntryPoint", Value.fromString(<string>value));
+    }
+  }
+
+  get mintPrice(): BigInt | null {
+    let value = this.get("mintPrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set mintPrice(value: BigInt | null) {
+    if (!value) {
+      this.unset("mintPrice");
+    } else {
+      this.set("mintPrice", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get expectedMintPrice(): BigInt | null {
+    let value = this.get("expectedMintPrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set expectedMintPrice(value: BigInt | null) {
+    if (!value) {
+      this.unset("expectedMintPrice");
+    } else {
+      this.set("expectedMintPrice", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get mintBatch(): string | null {
+    let value = this.get("mintBatch");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set mintBatch(value: string | null) {
+    if (!value) {
+      this.unset("mintBatch");
+    } else {
+      this.set("mintBatch", Value.fromString(<string>value));
+    }
+  }
+
+  get tokenURI(): string | null {
+    let value = this.get("tokenURI");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set tokenURI(value: string | null) {
+    if (!value) {
+      this.unset("tokenURI");
+    } else {
+      this.set("tokenURI", Value.fromString(<string>value));
+    }
+  }
+
+  get storageProtocol(): string | null {
+    let value = this.get("storageProtocol");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set storageProtocol(value: string | null) {
+    if (!value) {
+      this.unset("storageProtocol");
+    } else {
+      this.set("storageProtocol", Value.fromString(<string>value));
+    }
+  }
+
+  get cid(): string | null {
+    let value = this.get("cid");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set cid(value: string | null) {
+    if (!value) {
+      this.unset("cid");
+    } else {
+      this.set("cid", Value.fromString(<string>value));
+    }
+  }
+
+  get path(): string | null {
+    let value = this.get("path");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set path(value: string | null) {
+    if (!value) {
+      this.unset("path");
+    } else {
+      this.set("path", Value.fromString(<string>value));
+    }
+  }
+
+  get metadata(): string | null {
+    let value = this.get("metadata");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set metadata(value: string | null) {
+    if (!value) {
+      this.unset("metadata");
+    } else {
+      this.set("metadata", Value.fromString(<string>value));
+    }
+  }
+
+  get metadataVersions(): NFTMetadataLoader {
+    return new NFTMetadataLoader(
+      "CovenToken",
+      this.get("id")!.toString(),
+      "metadataVersions",
+    );
+  }
+
+  get metadataStatus(): string | null {
+    let value = this.get("metadataStatus");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set metadataStatus(value: string | null) {
+    if (!value) {
+      this.unset("metadataStatus");
+    } else {
+      this.set("metadataStatus", Value.fromString(<string>value));
+    }
+  }
+
+  get logIndex(): BigInt {
+    let value = this.get("logIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set logIndex(value: BigInt) {
+    this.set("logIndex", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Ownership extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Ownership entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Ownership must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Ownership", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Ownership | null {
+    return changetype<Ownership | null>(store.get_in_block("Ownership", id));
+  }
+
+  static load(id: string): Ownership | null {
+    return changetype<Ownership | null>(store.get("Ownership", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get holder(): string {
+    let value = this.get("holder");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set holder(value: string) {
+    this.set("holder", Value.fromString(value));
+  }
+
+  get acquisitionType(): string {
+    let value = this.get("acquisitionType");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set acquisitionType(value: string) {
+    this.set("acquisitionType", Value.fromString(value));
+  }
+
+  get acquiredAtBlock(): BigInt {
+    let value = this.get("acquiredAtBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set acquiredAtBlock(value: BigInt) {
+    this.set("acquiredAtBlock", Value.fromBigInt(value));
+  }
+
+  get acquiredAtTimestamp(): BigInt {
+    let value = this.get("acquiredAtTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set acquiredAtTimestamp(value: BigInt) {
+    this.set("acquiredAtTimestamp", Value.fromBigInt(value));
+  }
+
+  get acquiredTxHash(): Bytes {
+    let value = this.get("acquiredTxHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set acquiredTxHash(value: Bytes) {
+    this.set("acquiredTxHash", Value.fromBytes(value));
+  }
+
+  get releaseType(): string | null {
+    let value = this.get("releaseType");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set releaseType(value: string | null) {
+    if (!value) {
+      this.unset("releaseType");
+    } else {
+      this.set("releaseType", Value.fromString(<string>value));
+    }
+  }
+
+  get releasedAtBlock(): BigInt | null {
+    let value = this.get("releasedAtBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set releasedAtBlock(value: BigInt | null) {
+    if (!value) {
+      this.unset("releasedAtBlock");
+    } else {
+      this.set("releasedAtBlock", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get releasedAtTimestamp(): BigInt | null {
+    let value = this.get("releasedAtTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set releasedAtTimestamp(value: BigInt | null) {
+    if (!value) {
+      this.unset("releasedAtTimestamp");
+    } else {
+      this.set("releasedAtTimestamp", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get releasedTxHash(): Bytes | null {
+    let value = this.get("releasedTxHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set releasedTxHash(value: Bytes | null) {
+    if (!value) {
+      this.unset("releasedTxHash");
+    } else {
+      this.set("releasedTxHash", Value.fromBytes(<Bytes>value));
+    }
+  }
+
+  get holdingDuration(): BigInt | null {
+    let value = this.get("holdingDuration");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set holdingDuration(value: BigInt | null) {
+    if (!value) {
+      this.unset("holdingDuration");
+    } else {
+      this.set("holdingDuration", Value.fromBigInt(<BigInt>value));
+    }
+  }
+}
+
+export class MintBatch extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save MintBatch entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type MintBatch must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("MintBatch", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): MintBatch | null {
+    return changetype<MintBatch | null>(store.get_in_block("MintBatch", id));
+  }
+
+  static load(id: string): MintBatch | null {
+    return changetype<MintBatch | null>(store.get("MintBatch", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get minter(): Bytes {
+    let value = this.get("minter");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set minter(value: Bytes) {
+    this.set("minter", Value.fromBytes(value));
+  }
+
+  get tokens(): Array<string> {
+    let value = this.get("tokens");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set tokens(value: Array<string>) {
+    this.set("tokens", Value.fromStringArray(value));
+  }
+
+  get quantity(): i32 {
+    let value = this.get("quantity");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set quantity(value: i32) {
+    this.set("quantity", Value.fromI32(value));
+  }
+
+  get totalValue(): BigInt {
+    let value = this.get("totalValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalValue(value: BigInt) {
+    this.set("totalValue", Value.fromBigInt(value));
+  }
+
+  get gasUsed(): BigInt | null {
+    let value = this.get("gasUsed");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set gasUsed(value: BigInt | null) {
+    if (!value) {
+      this.unset("gasUsed");
+    } else {
+      this.set("gasUsed", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get classifiedCount(): i32 {
+    let value = this.get("classifiedCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set classifiedCount(value: i32) {
+    this.set("classifiedCount", Value.fromI32(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class OperatorApproval extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save OperatorApproval entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type OperatorApproval must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("OperatorApproval", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): OperatorApproval | null {
+    return changetype<OperatorApproval | null>(
+      store.get_in_block("OperatorApproval", id),
+    );
+  }
+
+  static load(id: string): OperatorApproval | null {
+    return changetype<OperatorApproval | null>(
+      store.get("OperatorApproval", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get owner(): string {
+    let value = this.get("owner");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set owner(value: string) {
+    this.set("owner", Value.fromString(value));
+  }
+
+  get operator(): Bytes {
+    let value = this.get("operator");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set operator(value: Bytes) {
+    this.set("operator", Value.fromBytes(value));
+  }
+
+  get approved(): boolean {
+    let value = this.get("approved");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set approved(value: boolean) {
+    this.set("approved", Value.fromBoolean(value));
+  }
+
+  get changeCount(): BigInt {
+    let value = this.get("changeCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set changeCount(value: BigInt) {
+    this.set("changeCount", Value.fromBigInt(value));
+  }
+
+  get history(): OperatorApprovalChangeLoader {
+    return new OperatorApprovalChangeLoader(
+      "OperatorApproval",
+      this.get("id")!.toString(),
+      "history",
+    );
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class OperatorApprovalChange extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(
+      id != null,
+      "Cannot save OperatorApprovalChange entity without an ID",
+    );
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type OperatorApprovalChange must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("OperatorApprovalChange", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): OperatorApprovalChange | null {
+    return changetype<OperatorApprovalChange | null>(
+      store.get_in_block("OperatorApprovalChange", id),
+    );
+  }
+
+  static load(id: string): OperatorApprovalChange | null {
+    return changetype<OperatorApprovalChange | null>(
+      store.get("OperatorApprovalChange", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get operatorApproval(): string {
+    let value = this.get("operatorApproval");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set operatorApproval(value: string) {
+    this.set("operatorApproval", Value.fromString(value));
+  }
+
+  get approved(): boolean {
+    let value = this.get("approved");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set approved(value: boolean) {
+    this.set("approved", Value.fromBoolean(value));
+  }
+
+  get logIndex(): BigInt {
+    let value = this.get("logIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set logIndex(value: BigInt) {
+    this.set("logIndex", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class SecurityAlert extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save SecurityAlert entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type SecurityAlert must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("SecurityAlert", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): SecurityAlert | null {
+    return changetype<SecurityAlert | null>(
+      store.get_in_block("SecurityAlert", id),
+    );
+  }
+
+  static load(id: string): SecurityAlert | null {
+    return changetype<SecurityAlert | null>(store.get("SecurityAlert", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get account(): string {
+    let value = this.get("account");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set account(value: string) {
+    this.set("account", Value.fromString(value));
+  }
+
+  get operator(): Bytes {
+    let value = this.get("operator");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set operator(value: Bytes) {
+    this.set("operator", Value.fromBytes(value));
+  }
+
+  get operatorApproval(): string {
+    let value = this.get("operatorApproval");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set operatorApproval(value: string) {
+    this.set("operatorApproval", Value.fromString(value));
+  }
+
+  get unknownOperator(): boolean {
+    let value = this.get("unknownOperator");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set unknownOperator(value: boolean) {
+    this.set("unknownOperator", Value.fromBoolean(value));
+  }
+
+  get operatorTransferred(): boolean {
+    let value = this.get("operatorTransferred");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set operatorTransferred(value: boolean) {
+    this.set("operatorTransferred", Value.fromBoolean(value));
+  }
+
+  get tokens(): Array<string> {
+    let value = this.get("tokens");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set tokens(value: Array<string>) {
+    this.set("tokens", Value.fromStringArray(value));
+  }
+
+  get blocksToFirstTransfer(): BigInt | null {
+    let value = this.get("blocksToFirstTransfer");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blocksToFirstTransfer(value: BigInt | null) {
+    if (!value) {
+      this.unset("blocksToFirstTransfer");
+    } else {
+      this.set("blocksToFirstTransfer", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get approvedTxHash(): Bytes {
+    let value = this.get("approvedTxHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set approvedTxHash(value: Bytes) {
+    this.set("approvedTxHash", Value.fromBytes(value));
+  }
+
+  get approvedAtBlock(): BigInt {
+    let value = this.get("approvedAtBlock");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set approvedAtBlock(value: BigInt) {
+    this.set("approvedAtBlock", Value.fromBigInt(value));
+  }
+
+  get approvedAtTimestamp(): BigInt {
+    let value = this.get("approvedAtTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set approvedAtTimestamp(value: BigInt) {
+    this.set("approvedAtTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Sale extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Sale entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Sale must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Sale", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Sale | null {
+    return changetype<Sale | null>(store.get_in_block("Sale", id));
+  }
+
+  static load(id: string): Sale | null {
+    return changetype<Sale | null>(store.get("Sale", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get tokenId(): BigInt {
+    let value = this.get("tokenId");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set tokenId(value: BigInt) {
+    this.set("tokenId", Value.fromBigInt(value));
+  }
+
+  get seller(): string {
+    let value = this.get("seller");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set seller(value: string) {
+    this.set("seller", Value.fromString(value));
+  }
+
+  get buyer(): string {
+    let value = this.get("buyer");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set buyer(value: string) {
+    this.set("buyer", Value.fromString(value));
+  }
+
+  get maker(): Bytes {
+    let value = this.get("maker");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set maker(value: Bytes) {
+    this.set("maker", Value.fromBytes(value));
+  }
+
+  get taker(): Bytes {
+    let value = this.get("taker");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set taker(value: Bytes) {
+    this.set("taker", Value.fromBytes(value));
+  }
+
+  get orderPrice(): BigInt {
+    let value = this.get("orderPrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set orderPrice(value: BigInt) {
+    this.set("orderPrice", Value.fromBigInt(value));
+  }
+
+  get bundleSize(): i32 {
+    let value = this.get("bundleSize");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set bundleSize(value: i32) {
+    this.set("bundleSize", Value.fromI32(value));
+  }
+
+  get price(): BigInt {
+    let value = this.get("price");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set price(value: BigInt) {
+    this.set("price", Value.fromBigInt(value));
+  }
+
+  get buyHash(): Bytes {
+    let value = this.get("buyHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set buyHash(value: Bytes) {
+    this.set("buyHash", Value.fromBytes(value));
+  }
+
+  get sellHash(): Bytes {
+    let value = this.get("sellHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set sellHash(value: Bytes) {
+    this.set("sellHash", Value.fromBytes(value));
+  }
+
+  get saleSide(): string {
+    let value = this.get("saleSide");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set saleSide(value: string) {
+    this.set("saleSide", Value.fromString(value));
+  }
+
+  get orders(): OrderLoader {
+    return new OrderLoader("Sale", this.get("id")!.toString(), "orders");
+  }
+
+  get logIndex(): BigInt {
+    let value = this.get("logIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set logIndex(value: BigInt) {
+    this.set("logIndex", Value.fromBigInt(value));
+  }
+
+  get transferLogIndex(): BigInt {
+    let value = this.get("transferLogIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set transferLogIndex(value: BigInt) {
+    this.set("transferLogIndex", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class ProcessedEvent extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save ProcessedEvent entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type ProcessedEvent must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("ProcessedEvent", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): ProcessedEvent | null {
+    return changetype<ProcessedEvent | null>(
+      store.get_in_block("ProcessedEvent", id),
+    );
+  }
+
+  static load(id: string): ProcessedEvent | null {
+    return changetype<ProcessedEvent | null>(store.get("ProcessedEvent", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get processedBy(): string {
+    let value = this.get("processedBy");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set processedBy(value: string) {
+    this.set("processedBy", Value.fromString(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get logIndex(): BigInt {
+    let value = this.get("logIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set logIndex(value: BigInt) {
+    this.set("logIndex", Value.fromBigInt(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+}
+
+export class SaleBatch extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save SaleBatch entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type SaleBatch must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("SaleBatch", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): SaleBatch | null {
+    return changetype<SaleBatch | null>(store.get_in_block("SaleBatch", id));
+  }
+
+  static load(id: string): SaleBatch | null {
+    return changetype<SaleBatch | null>(store.get("SaleBatch", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get sales(): Array<string> {
+    let value = this.get("sales");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set sales(value: Array<string>) {
+    this.set("sales", Value.fromStringArray(value));
+  }
+
+  get linkedCount(): i32 {
+    let value = this.get("linkedCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set linkedCount(value: i32) {
+    this.set("linkedCount", Value.fromI32(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Order extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Order entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Order must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Order", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Order | null {
+    return changetype<Order | null>(store.get_in_block("Order", id));
+  }
+
+  static load(id: string): Order | null {
+    return changetype<Order | null>(store.get("Order", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get hash(): Bytes {
+    let value = this.get("hash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set hash(value: Bytes) {
+    this.set("hash", Value.fromBytes(value));
+  }
+
+  get sales(): Array<string> {
+    let value = this.get("sales");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set sales(value: Array<string>) {
+    this.set("sales", Value.fromStringArray(value));
+  }
+
+  get exchange(): Bytes {
+    let value = this.get("exchange");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set exchange(value: Bytes) {
+    this.set("exchange", Value.fromBytes(value));
+  }
+
+  get maker(): Bytes {
+    let value = this.get("maker");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set maker(value: Bytes) {
+    this.set("maker", Value.fromBytes(value));
+  }
+
+  get taker(): Bytes {
+    let value = this.get("taker");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set taker(value: Bytes) {
+    this.set("taker", Value.fromBytes(value));
+  }
+
+  get feeRecipient(): Bytes {
+    let value = this.get("feeRecipient");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set feeRecipient(value: Bytes) {
+    this.set("feeRecipient", Value.fromBytes(value));
+  }
+
+  get makerRelayerFee(): BigInt {
+    let value = this.get("makerRelayerFee");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set makerRelayerFee(value: BigInt) {
+    this.set("makerRelayerFee", Value.fromBigInt(value));
+  }
+
+  get takerRelayerFee(): BigInt {
+    let value = this.get("takerRelayerFee");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set takerRelayerFee(value: BigInt) {
+    this.set("takerRelayerFee", Value.fromBigInt(value));
+  }
+
+  get makerProtocolFee(): BigInt {
+    let value = this.get("makerProtocolFee");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set makerProtocolFee(value: BigInt) {
+    this.set("makerProtocolFee", Value.fromBigInt(value));
+  }
+
+  get takerProtocolFee(): BigInt {
+    let value = this.get("takerProtocolFee");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set takerProtocolFee(value: BigInt) {
+    this.set("takerProtocolFee", Value.fromBigInt(value));
+  }
+
+  get side(): string {
+    let value = this.get("side");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set side(value: string) {
+    this.set("side", Value.fromString(value));
+  }
+
+  get saleKind(): string {
+    let value = this.get("saleKind");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set saleKind(value: string) {
+    this.set("saleKind", Value.fromString(value));
+  }
+
+  get paymentToken(): Bytes {
+    let value = this.get("paymentToken");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set paymentToken(value: Bytes) {
+    this.set("paymentToken", Value.fromBytes(value));
+  }
+
+  get basePrice(): BigInt {
+    let value = this.get("basePrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set basePrice(value: BigInt) {
+    this.set("basePrice", Value.fromBigInt(value));
+  }
+
+  get extra(): BigInt {
+    let value = this.get("extra");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set extra(value: BigInt) {
+    this.set("extra", Value.fromBigInt(value));
+  }
+
+  get listingTime(): BigInt {
+    let value = this.get("listingTime");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set listingTime(value: BigInt) {
+    this.set("listingTime", Value.fromBigInt(value));
+  }
+
+  get expirationTime(): BigInt {
+    let value = this.get("expirationTime");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set expirationTime(value: BigInt) {
+    this.set("expirationTime", Value.fromBigInt(value));
+  }
+
+  get salt(): BigInt {
+    let value = this.get("salt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set salt(value: BigInt) {
+    this.set("salt", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Burn extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Burn entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Burn must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Burn", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Burn | null {
+    return changetype<Burn | null>(store.get_in_block("Burn", id));
+  }
+
+  static load(id: string): Burn | null {
+    return changetype<Burn | null>(store.get("Burn", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get from(): string {
+    let value = this.get("from");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set from(value: string) {
+    this.set("from", Value.fromString(value));
+  }
+
+  get burnAddress(): Bytes {
+    let value = this.get("burnAddress");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set burnAddress(value: Bytes) {
+    this.set("burnAddress", Value.fromBytes(value));
+  }
+
+  get logIndex(): BigInt {
+    let value = this.get("logIndex");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set logIndex(value: BigInt) {
+    this.set("logIndex", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class Collection extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Collection entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Collection must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Collection", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Collection | null {
+    return changetype<Collection | null>(store.get_in_block("Collection", id));
+  }
+
+  static load(id: string): Collection | null {
+    return changetype<Collection | null>(store.get("Collection", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get totalMinted(): BigInt {
+    let value = this.get("totalMinted");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalMinted(value: BigInt) {
+    this.set("totalMinted", Value.fromBigInt(value));
+  }
+
+  get totalBurned(): BigInt {
+    let value = this.get("totalBurned");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalBurned(value: BigInt) {
+    this.set("totalBurned", Value.fromBigInt(value));
+  }
+
+  get totalSupply(): BigInt {
+    let value = this.get("totalSupply");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set totalSupply(value: BigInt) {
+    this.set("totalSupply", Value.fromBigInt(value));
+  }
+
+  get circulatingSupply(): BigInt {
+    let value = this.get("circulatingSupply");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set circulatingSupply(value: BigInt) {
+    this.set("circulatingSupply", Value.fromBigInt(value));
+  }
+
+  get holderCount(): BigInt {
+    let value = this.get("holderCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set holderCount(value: BigInt) {
+    this.set("holderCount", Value.fromBigInt(value));
+  }
+
+  get uniqueMinters(): BigInt {
+    let value = this.get("uniqueMinters");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set uniqueMinters(value: BigInt) {
+    this.set("uniqueMinters", Value.fromBigInt(value));
+  }
+
+  get maxWitches(): BigInt {
+    let value = this.get("maxWitches");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set maxWitches(value: BigInt) {
+    this.set("maxWitches", Value.fromBigInt(value));
+  }
+
+  get maxCommunitySaleWitches(): BigInt {
+    let value = this.get("maxCommunitySaleWitches");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set maxCommunitySaleWitches(value: BigInt) {
+    this.set("maxCommunitySaleWitches", Value.fromBigInt(value));
+  }
+
+  get maxGiftedWitches(): BigInt {
+    let value = this.get("maxGiftedWitches");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set maxGiftedWitches(value: BigInt) {
+    this.set("maxGiftedWitches", Value.fromBigInt(value));
+  }
+
+  get communitySaleMinted(): BigInt {
+    let value = this.get("communitySaleMinted");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set communitySaleMinted(value: BigInt) {
+    this.set("communitySaleMinted", Value.fromBigInt(value));
+  }
+
+  get giftedMinted(): BigInt {
+    let value = this.get("giftedMinted");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set giftedMinted(value: BigInt) {
+    this.set("giftedMinted", Value.fromBigInt(value));
+  }
+
+  get secondarySaleCount(): BigInt {
+    let value = this.get("secondarySaleCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set secondarySaleCount(value: BigInt) {
+    this.set("secondarySaleCount", Value.fromBigInt(value));
+  }
+
+  get secondaryVolume(): BigInt {
+    let value = this.get("secondaryVolume");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set secondaryVolume(value: BigInt) {
+    this.set("secondaryVolume", Value.fromBigInt(value));
+  }
+
+  get publicSalePrice(): BigInt {
+    let value = this.get("publicSalePrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set publicSalePrice(value: BigInt) {
+    this.set("publicSalePrice", Value.fromBigInt(value));
+  }
+
+  get communitySalePrice(): BigInt {
+    let value = this.get("communitySalePrice");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set communitySalePrice(value: BigInt) {
+    this.set("communitySalePrice", Value.fromBigInt(value));
+  }
+
+  get primaryRevenue(): BigInt {
+    let value = this.get("primaryRevenue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set primaryRevenue(value: BigInt) {
+    this.set("primaryRevenue", Value.fromBigInt(value));
+  }
+
+  get primaryRevenueWithdrawn(): BigInt {
+    let value = this.get("primaryRevenueWithdrawn");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set primaryRevenueWithdrawn(value: BigInt) {
+    this.set("primaryRevenueWithdrawn", Value.fromBigInt(value));
+  }
+
+  get withdrawalCount(): BigInt {
+    let value = this.get("withdrawalCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set withdrawalCount(value: BigInt) {
+    this.set("withdrawalCount", Value.fromBigInt(value));
+  }
+
+  get withdrawals(): TreasuryWithdrawalLoader {
+    return new TreasuryWithdrawalLoader(
+      "Collection",
+      this.get("id")!.toString(),
+      "withdrawals",
+    );
+  }
+}
+
+export class TreasuryWithdrawal extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save TreasuryWithdrawal entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type TreasuryWithdrawal must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("TreasuryWithdrawal", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): TreasuryWithdrawal | null {
+    return changetype<TreasuryWithdrawal | null>(
+      store.get_in_block("TreasuryWithdrawal", id),
+    );
+  }
+
+  static load(id: string): TreasuryWithdrawal | null {
+    return changetype<TreasuryWithdrawal | null>(
+      store.get("TreasuryWithdrawal", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get collection(): string {
+    let value = this.get("collection");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set collection(value: string) {
+    this.set("collection", Value.fromString(value));
+  }
+
+  get asset(): Bytes | null {
+    let value = this.get("asset");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set asset(value: Bytes | null) {
+    if (!value) {
+      this.unset("asset");
+    } else {
+      this.set("asset", Value.fromBytes(<Bytes>value));
+    }
+  }
+
+  get caller(): Bytes {
+    let value = this.get("caller");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set caller(value: Bytes) {
+    this.set("caller", Value.fromBytes(value));
+  }
+
+  get primaryRevenueWithdrawn(): BigInt {
+    let value = this.get("primaryRevenueWithdrawn");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set primaryRevenueWithdrawn(value: BigInt) {
+    this.set("primaryRevenueWithdrawn", Value.fromBigInt(value));
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class NFTMetadata extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save NFTMetadata entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type NFTMetadata must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("NFTMetadata", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): NFTMetadata | null {
+    return changetype<NFTMetadata | null>(
+      store.get_in_block("NFTMetadata", id),
+    );
+  }
+
+  static load(id: string): NFTMetadata | null {
+    return changetype<NFTMetadata | null>(store.get("NFTMetadata", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get storageProtocol(): string {
+    let value = this.get("storageProtocol");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set storageProtocol(value: string) {
+    this.set("storageProtocol", Value.fromString(value));
+  }
+
+  get cid(): string {
+    let value = this.get("cid");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set cid(value: string) {
+    this.set("cid", Value.fromString(value));
+  }
+
+  get path(): string {
+    let value = this.get("path");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set path(value: string) {
+    this.set("path", Value.fromString(value));
+  }
+
+  get name(): string {
+    let value = this.get("name");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set name(value: string) {
+    this.set("name", Value.fromString(value));
+  }
+
+  get description(): string {
+    let value = this.get("description");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set description(value: string) {
+    this.set("description", Value.fromString(value));
+  }
+
+  get image(): string {
+    let value = this.get("image");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set image(value: string) {
+    this.set("image", Value.fromString(value));
+  }
+
+  get externalURL(): string {
+    let value = this.get("externalURL");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set externalURL(value: string) {
+    this.set("externalURL", Value.fromString(value));
+  }
+
+  get backgroundColor(): string {
+    let value = this.get("backgroundColor");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set backgroundColor(value: string) {
+    this.set("backgroundColor", Value.fromString(value));
+  }
+
+  get contentHash(): Bytes {
+    let value = this.get("contentHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set contentHash(value: Bytes) {
+    this.set("contentHash", Value.fromBytes(value));
+  }
+
+  get imageOriginalURL(): string {
+    let value = this.get("imageOriginalURL");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set imageOriginalURL(value: string) {
+    this.set("imageOriginalURL", Value.fromString(value));
+  }
+
+  get animationURL(): string {
+    let value = this.get("animationURL");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set animationURL(value: string) {
+    this.set("animationURL", Value.fromString(value));
+  }
+
+  get imageMedia(): string | null {
+    let value = this.get("imageMedia");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set imageMedia(value: string | null) {
+    if (!value) {
+      this.unset("imageMedia");
+    } else {
+      this.set("imageMedia", Value.fromString(<string>value));
+    }
+  }
+
+  get imageOriginalMedia(): string | null {
+    let value = this.get("imageOriginalMedia");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set imageOriginalMedia(value: string | null) {
+    if (!value) {
+      this.unset("imageOriginalMedia");
+    } else {
+      this.set("imageOriginalMedia", Value.fromString(<string>value));
+    }
+  }
+
+  get animationMedia(): string | null {
+    let value = this.get("animationMedia");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set animationMedia(value: string | null) {
+    if (!value) {
+      this.unset("animationMedia");
+    } else {
+      this.set("animationMedia", Value.fromString(<string>value));
+    }
+  }
+
+  get coven(): string | null {
+    let value = this.get("coven");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set coven(value: string | null) {
+    if (!value) {
+      this.unset("coven");
+    } else {
+      this.set("coven", Value.fromString(<string>value));
+    }
+  }
+
+  get attributes(): AttributeLoader {
+    return new AttributeLoader(
+      "NFTMetadata",
+      this.get("id")!.toString(),
+      "attributes",
+    );
+  }
+}
+
+export class Media extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Media entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Media must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Media", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Media | null {
+    return changetype<Media | null>(store.get_in_block("Media", id));
+  }
+
+  static load(id: string): Media | null {
+    return changetype<Media | null>(store.get("Media", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get metadata(): string {
+    let value = this.get("metadata");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set metadata(value: string) {
+    this.set("metadata", Value.fromString(value));
+  }
+
+  get field(): string {
+    let value = this.get("field");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set field(value: string) {
+    this.set("field", Value.fromString(value));
+  }
+
+  get rawURI(): string {
+    let value = this.get("rawURI");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set rawURI(value: string) {
+    this.set("rawURI", Value.fromString(value));
+  }
+
+  get mediaType(): string {
+    let value = this.get("mediaType");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set mediaType(value: string) {
+    this.set("mediaType", Value.fromString(value));
+  }
+
+  get storageProtocol(): string | null {
+    let value = this.get("storageProtocol");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set storageProtocol(value: string | null) {
+    if (!value) {
+      this.unset("storageProtocol");
+    } else {
+      this.set("storageProtocol", Value.fromString(<string>value));
+    }
+  }
+
+  get cid(): string | null {
+    let value = this.get("cid");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set cid(value: string | null) {
+    if (!value) {
+      this.unset("cid");
+    } else {
+      this.set("cid", Value.fromString(<string>value));
+    }
+  }
+
+  get canonicalURI(): string {
+    let value = this.get("canonicalURI");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set canonicalURI(value: string) {
+    this.set("canonicalURI", Value.fromString(value));
+  }
+}
+
+export class Coven extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Coven entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Coven must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Coven", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Coven | null {
+    return changetype<Coven | null>(store.get_in_block("Coven", id));
+  }
+
+  static load(id: string): Coven | null {
+    return changetype<Coven | null>(store.get("Coven", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get metadata(): string {
+    let value = this.get("metadata");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set metadata(value: string) {
+    this.set("metadata", Value.fromString(value));
+  }
+
+  get name(): string {
+    let value = this.get("name");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set name(value: string) {
+    this.set("name", Value.fromString(value));
+  }
+
+  get type(): string {
+    let value = this.get("type");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set type(value: string) {
+    this.set("type", Value.fromString(value));
+  }
+
+  get hash(): string {
+    let value = this.get("hash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set hash(value: string) {
+    this.set("hash", Value.fromString(value));
+  }
+
+  get description(): string {
+    let value = this.get("description");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set description(value: string) {
+    this.set("description", Value.fromString(value));
+  }
+
+  get skills(): string {
+    let value = this.get("skills");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set skills(value: string) {
+    this.set("skills", Value.fromString(value));
+  }
+
+  get birthChart(): string {
+    let value = this.get("birthChart");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set birthChart(value: string) {
+    this.set("birthChart", Value.fromString(value));
+  }
+
+  get styles(): StyleLoader {
+    return new StyleLoader("Coven", this.get("id")!.toString(), "styles");
+  }
+}
+
+export class Description extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Description entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Description must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Description", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Description | null {
+    return changetype<Description | null>(
+      store.get_in_block("Description", id),
+    );
+  }
+
+  static load(id: string): Description | null {
+    return changetype<Description | null>(store.get("Description", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get intro(): string {
+    let value = this.get("intro");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set intro(value: string) {
+    this.set("intro", Value.fromString(value));
+  }
+
+  get hobby(): string {
+    let value = this.get("hobby");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set hobby(value: string) {
+    this.set("hobby", Value.fromString(value));
+  }
+
+  get magic(): string {
+    let value = this.get("magic");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set magic(value: string) {
+    this.set("magic", Value.fromString(value));
+  }
+
+  get typeSpecific(): string {
+    let value = this.get("typeSpecific");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set typeSpecific(value: string) {
+    this.set("typeSpecific", Value.fromString(value));
+  }
+
+  get exclamation(): string {
+    let value = this.get("exclamation");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set exclamation(value: string) {
+    this.set("exclamation", Value.fromString(value));
+  }
+}
+
+export class Skills extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Skills entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Skills must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Skills", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Skills | null {
+    return changetype<Skills | null>(store.get_in_block("Skills", id));
+  }
+
+  static load(id: string): Skills | null {
+    return changetype<Skills | null>(store.get("Skills", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get will(): i32 {
+    let value = this.get("will");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set will(value: i32) {
+    this.set("will", Value.fromI32(value));
+  }
+
+  get wit(): i32 {
+    let value = this.get("wit");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set wit(value: i32) {
+    this.set("wit", Value.fromI32(value));
+  }
+
+  get wiles(): i32 {
+    let value = this.get("wiles");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set wiles(value: i32) {
+    this.set("wiles", Value.fromI32(value));
+  }
+
+  get wisdom(): i32 {
+    let value = this.get("wisdom");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set wisdom(value: i32) {
+    this.set("wisdom", Value.fromI32(value));
+  }
+
+  get wonder(): i32 {
+    let value = this.get("wonder");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set wonder(value: i32) {
+    this.set("wonder", Value.fromI32(value));
+  }
+
+  get woe(): i32 {
+    let value = this.get("woe");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set woe(value: i32) {
+    this.set("woe", Value.fromI32(value));
+  }
+
+  get total(): i32 {
+    let value = this.get("total");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set total(value: i32) {
+    this.set("total", Value.fromI32(value));
+  }
+}
+
+export class BirthChart extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save BirthChart entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type BirthChart must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("BirthChart", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): BirthChart | null {
+    return changetype<BirthChart | null>(store.get_in_block("BirthChart", id));
+  }
+
+  static load(id: string): BirthChart | null {
+    return changetype<BirthChart | null>(store.get("BirthChart", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get sun(): string {
+    let value = this.get("sun");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set sun(value: string) {
+    this.set("sun", Value.fromString(value));
+  }
+
+  get moon(): string {
+    let value = this.get("moon");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set moon(value: string) {
+    this.set("moon", Value.fromString(value));
+  }
+
+  get rising(): string {
+    let value = this.get("rising");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set rising(value: string) {
+    this.set("rising", Value.fromString(value));
+  }
+
+  get combination(): string {
+    let value = this.get("combination");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set combination(value: string) {
+    this.set("combination", Value.fromString(value));
+  }
+}
+
+export class Attribute extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Attribute entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Attribute must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Attribute", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Attribute | null {
+    return changetype<Attribute | null>(store.get_in_block("Attribute", id));
+  }
+
+  static load(id: string): Attribute | null {
+    return changetype<Attribute | null>(store.get("Attribute", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get metadata(): string {
+    let value = this.get("metadata");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set metadata(value: string) {
+    this.set("metadata", Value.fromString(value));
+  }
+
+  get traitType(): string {
+    let value = this.get("traitType");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set traitType(value: string) {
+    this.set("traitType", Value.fromString(value));
+  }
+
+  get value(): string {
+    let value = this.get("value");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set value(value: string) {
+    this.set("value", Value.fromString(value));
+  }
+
+  get displayType(): string {
+    let value = this.get("displayType");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set displayType(value: string) {
+    this.set("displayType", Value.fromString(value));
+  }
+
+  get maxValue(): BigInt {
+    let value = this.get("maxValue");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set maxValue(value: BigInt) {
+    this.set("maxValue", Value.fromBigInt(value));
+  }
+}
+
+export class Style extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Style entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Style must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Style", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Style | null {
+    return changetype<Style | null>(store.get_in_block("Style", id));
+  }
+
+  static load(id: string): Style | null {
+    return changetype<Style | null>(store.get("Style", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get coven(): string {
+    let value = this.get("coven");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set coven(value: string) {
+    this.set("coven", Value.fromString(value));
+  }
+
+  get attribute(): string {
+    let value = this.get("attribute");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set attribute(value: string) {
+    this.set("attribute", Value.fromString(value));
+  }
+
+  get name(): string {
+    let value = this.get("name");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set name(value: string) {
+    this.set("name", Value.fromString(value));
+  }
+
+  get color(): string {
+    let value = this.get("color");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set color(value: string) {
+    this.set("color", Value.fromString(value));
+  }
+}
+
+export class MetadataStatus extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save MetadataStatus entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type MetadataStatus must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("MetadataStatus", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): MetadataStatus | null {
+    return changetype<MetadataStatus | null>(
+      store.get_in_block("MetadataStatus", id),
+    );
+  }
+
+  static load(id: string): MetadataStatus | null {
+    return changetype<MetadataStatus | null>(store.get("MetadataStatus", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get source(): string {
+    let value = this.get("source");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set source(value: string) {
+    this.set("source", Value.fromString(value));
+  }
+
+  get cid(): string {
+    let value = this.get("cid");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set cid(value: string) {
+    this.set("cid", Value.fromString(value));
+  }
+
+  get requestedVersion(): i32 {
+    let value = this.get("requestedVersion");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set requestedVersion(value: i32) {
+    this.set("requestedVersion", Value.fromI32(value));
+  }
+
+  get requestedAt(): BigInt {
+    let value = this.get("requestedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set requestedAt(value: BigInt) {
+    this.set("requestedAt", Value.fromBigInt(value));
+  }
+
+  get requestedTimestamp(): BigInt {
+    let value = this.get("requestedTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set requestedTimestamp(value: BigInt) {
+    this.set("requestedTimestamp", Value.fromBigInt(value));
+  }
+
+  get requestState(): string {
+    let value = this.get("requestState");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set requestState(value: string) {
+    this.set("requestState", Value.fromString(value));
+  }
+
+  get requestError(): string {
+    let value = this.get("requestError");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set requestError(value: string) {
+    this.set("requestError", Value.fromString(value));
+  }
+
+  get latestResult(): string | null {
+    let value = this.get("latestResult");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set latestResult(value: string | null) {
+    if (!value) {
+      this.unset("latestResult");
+    } else {
+      this.set("latestResult", Value.fromString(<string>value));
+    }
+  }
+
+  get results(): MetadataResultLoader {
+    return new MetadataResultLoader(
+      "MetadataStatus",
+      this.get("id")!.toString(),
+      "results",
+    );
+  }
+}
+
+export class MetadataResult extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save MetadataResult entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type MetadataResult must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("MetadataResult", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): MetadataResult | null {
+    return changetype<MetadataResult | null>(
+      store.get_in_block("MetadataResult", id),
+    );
+  }
+
+  static load(id: string): MetadataResult | null {
+    return changetype<MetadataResult | null>(store.get("MetadataResult", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get status(): string {
+    let value = this.get("status");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set status(value: string) {
+    this.set("status", Value.fromString(value));
+  }
+
+  get token(): string {
+    let value = this.get("token");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set token(value: string) {
+    this.set("token", Value.fromString(value));
+  }
+
+  get resolved(): boolean {
+    let value = this.get("resolved");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set resolved(value: boolean) {
+    this.set("resolved", Value.fromBoolean(value));
+  }
+
+  get resolvedVersion(): i32 {
+    let value = this.get("resolvedVersion");
+    if (!value || value.kind == ValueKind.NULL) {
+      return 0;
+    } else {
+      return value.toI32();
+    }
+  }
+
+  set resolvedVersion(value: i32) {
+    this.set("resolvedVersion", Value.fromI32(value));
+  }
+
+  get cid(): string {
+    let value = this.get("cid");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set cid(value: string) {
+    this.set("cid", Value.fromString(value));
+  }
+
+  get lastError(): string {
+    let value = this.get("lastError");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set lastError(value: string) {
+    this.set("lastError", Value.fromString(value));
+  }
+
+  get metadata(): string | null {
+    let value = this.get("metadata");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set metadata(value: string | null) {
+    if (!value) {
+      this.unset("metadata");
+    } else {
+      this.set("metadata", Value.fromString(<string>value));
+    }
+  }
+}
+
+export class MetadataStats extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save MetadataStats entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type MetadataStats must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("MetadataStats", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): MetadataStats | null {
+    return changetype<MetadataStats | null>(
+      store.get_in_block("MetadataStats", id),
+    );
+  }
+
+  static load(id: string): MetadataStats | null {
+    return changetype<MetadataStats | null>(store.get("MetadataStats", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get requestedCount(): BigInt {
+    let value = this.get("requestedCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set requestedCount(value: BigInt) {
+    this.set("requestedCount", Value.fromBigInt(value));
+  }
+
+  get refreshCount(): BigInt {
+    let value = this.get("refreshCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set refreshCount(value: BigInt) {
+    this.set("refreshCount", Value.fromBigInt(value));
+  }
+
+  get failedRequestCount(): BigInt {
+    let value = this.get("failedRequestCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set failedRequestCount(value: BigInt) {
+    this.set("failedRequestCount", Value.fromBigInt(value));
+  }
+}
+
+export class Provenance extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save Provenance entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type Provenance must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("Provenance", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): Provenance | null {
+    return changetype<Provenance | null>(store.get_in_block("Provenance", id));
+  }
+
+  static load(id: string): Provenance | null {
+    return changetype<Provenance | null>(store.get("Provenance", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get verificationHash(): string {
+    let value = this.get("verificationHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set verificationHash(value: string) {
+    this.set("verificationHash", Value.fromString(value));
+  }
+
+  get changeCount(): BigInt {
+    let value = this.get("changeCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set changeCount(value: BigInt) {
+    this.set("changeCount", Value.fromBigInt(value));
+  }
+
+  get baseURI(): string {
+    let value = this.get("baseURI");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set baseURI(value: string) {
+    this.set("baseURI", Value.fromString(value));
+  }
+
+  get baseURIChangeCount(): BigInt {
+    let value = this.get("baseURIChangeCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set baseURIChangeCount(value: BigInt) {
+    this.set("baseURIChangeCount", Value.fromBigInt(value));
+  }
+
+  get changes(): ProvenanceChangeLoader {
+    return new ProvenanceChangeLoader(
+      "Provenance",
+      this.get("id")!.toString(),
+      "changes",
+    );
+  }
+
+  get baseURIChanges(): BaseURIChangeLoader {
+    return new BaseURIChangeLoader(
+      "Provenance",
+      this.get("id")!.toString(),
+      "baseURIChanges",
+    );
+  }
+
+  get txHash(): Bytes {
+    let value = this.get("txHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set txHash(value: Bytes) {
+    this.set("txHash", Value.fromBytes(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get blockTimestamp(): BigInt {
+    let value = this.get("blockTimestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockTimestamp(value: BigInt) {
+    this.set("blockTimestamp", Value.fromBigInt(value));
+  }
+}
+
+export class ProvenanceChange extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save ProvenanceChange entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type ProvenanceChange must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("ProvenanceChange", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): ProvenanceChange | null {
+    return changetype<ProvenanceChange | null>(
+      store.get_in_block("ProvenanceChange", id),
+    );
+  }
+
+  static load(id: string): ProvenanceChange | null {
+    return changetype<ProvenanceChange | null>(
+      store.get("ProvenanceChange", id),
+    );
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get provenance(): string {
+    let value = this.get("provenance");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set provenance(value: string) {
+    this.set("provenance", Value.fromString(value));
+  }
+
+  get oldVerificationHash(): string {
+    let value = this.get("oldVerificationHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set oldVerificationHash(value: string) {
+    this.set("oldVerificationHash", Value.fromString(value));
   }
 
-  get accountType(): string {
-    let value = this.get("accountType");
+  get newVerificationHash(): string {
+    let value = this.get("newVerificationHash");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -402,21 +4970,21 @@ export class AccountHistory extends Entity {
     }
   }
 
-  set accountType(value: string) {
-    this.set("accountType", Value.fromString(value));
+  set newVerificationHash(value: string) {
+    this.set("newVerificationHash", Value.fromString(value));
   }
 
-  get logIndex(): BigInt {
-    let value = this.get("logIndex");
+  get caller(): Bytes {
+    let value = this.get("caller");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toBigInt();
+      return value.toBytes();
     }
   }
 
-  set logIndex(value: BigInt) {
-    this.set("logIndex", Value.fromBigInt(value));
+  set caller(value: Bytes) {
+    this.set("caller", Value.fromBytes(value));
   }
 
   get txHash(): Bytes {
@@ -459,7 +5027,7 @@ export class AccountHistory extends Entity {
   }
 }
 
-export class CovenToken extends Entity {
+export class BaseURIChange extends Entity {
   constructor(id: string) {
     super();
     this.set("id", Value.fromString(id));
@@ -467,22 +5035,24 @@ export class CovenToken extends Entity {
 
   save(): void {
     let id = this.get("id");
-    assert(id != null, "Cannot save CovenToken entity without an ID");
+    assert(id != null, "Cannot save BaseURIChange entity without an ID");
     if (id) {
       assert(
         id.kind == ValueKind.STRING,
-        `Entities of type CovenToken must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+        `Entities of type BaseURIChange must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
       );
-      store.set("CovenToken", id.toString(), this);
+      store.set("BaseURIChange", id.toString(), this);
     }
   }
 
-  static loadInBlock(id: string): CovenToken | null {
-    return changetype<CovenToken | null>(store.get_in_block("CovenToken", id));
+  static loadInBlock(id: string): BaseURIChange | null {
+    return changetype<BaseURIChange | null>(
+      store.get_in_block("BaseURIChange", id),
+    );
   }
 
-  static load(id: string): CovenToken | null {
-    return changetype<CovenToken | null>(store.get("CovenToken", id));
+  static load(id: string): BaseURIChange | null {
+    return changetype<BaseURIChange | null>(store.get("BaseURIChange", id));
   }
 
   get id(): string {
@@ -498,8 +5068,8 @@ export class CovenToken extends Entity {
     this.set("id", Value.fromString(value));
   }
 
-  get from(): string {
-    let value = this.get("from");
+  get provenance(): string {
+    let value = this.get("provenance");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -507,12 +5077,12 @@ export class CovenToken extends Entity {
     }
   }
 
-  set from(value: string) {
-    this.set("from", Value.fromString(value));
+  set provenance(value: string) {
+    this.set("provenance", Value.fromString(value));
   }
 
-  get to(): string {
-    let value = this.get("to");
+  get oldBaseURI(): string {
+    let value = this.get("oldBaseURI");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -520,25 +5090,12 @@ export class CovenToken extends Entity {
     }
   }
 
-  set to(value: string) {
-    this.set("to", Value.fromString(value));
-  }
-
-  get owner(): Bytes {
-    let value = this.get("owner");
-    if (!value || value.kind == ValueKind.NULL) {
-      throw new Error("Cannot return null for a required field.");
-    } else {
-      return value.toBytes();
-    }
-  }
-
-  set owner(value: Bytes) {
-    this.set("owner", Value.fromBytes(value));
+  set oldBaseURI(value: string) {
+    this.set("oldBaseURI", Value.fromString(value));
   }
 
-  get tokenId(): string {
-    let value = this.get("tokenId");
+  get newBaseURI(): string {
+    let value = this.get("newBaseURI");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -546,34 +5103,34 @@ export class CovenToken extends Entity {
     }
   }
 
-  set tokenId(value: string) {
-    this.set("tokenId", Value.fromString(value));
+  set newBaseURI(value: string) {
+    this.set("newBaseURI", Value.fromString(value));
   }
 
-  get tokenMintCount(): BigInt {
-    let value = this.get("tokenMintCount");
+  get rootChanged(): boolean {
+    let value = this.get("rootChanged");
     if (!value || value.kind == ValueKind.NULL) {
-      throw new Error("Cannot return null for a required field.");
+      return false;
     } else {
-      return value.toBigInt();
+      return value.toBoolean();
     }
   }
 
-  set tokenMintCount(value: BigInt) {
-    this.set("tokenMintCount", Value.fromBigInt(value));
+  set rootChanged(value: boolean) {
+    this.set("rootChanged", Value.fromBoolean(value));
   }
 
-  get logIndex(): BigInt {
-    let value = this.get("logIndex");
+  get caller(): Bytes {
+    let value = this.get("caller");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
-      return value.toBigInt();
+      return value.toBytes();
     }
   }
 
-  set logIndex(value: BigInt) {
-    this.set("logIndex", Value.fromBigInt(value));
+  set caller(value: Bytes) {
+    this.set("caller", Value.fromBytes(value));
   }
 
   get txHash(): Bytes {
@@ -919,3 +5476,237 @@ export class AccountHistoryLoader extends Entity {
     return changetype<AccountHistory[]>(value);
   }
 }
+
+export class OwnershipLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Ownership[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Ownership[]>(value);
+  }
+}
+
+export class OperatorApprovalLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): OperatorApproval[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<OperatorApproval[]>(value);
+  }
+}
+
+export class SecurityAlertLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): SecurityAlert[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<SecurityAlert[]>(value);
+  }
+}
+
+export class SaleLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Sale[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Sale[]>(value);
+  }
+}
+
+export class NFTMetadataLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): NFTMetadata[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<NFTMetadata[]>(value);
+  }
+}
+
+export class OperatorApprovalChangeLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): OperatorApprovalChange[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<OperatorApprovalChange[]>(value);
+  }
+}
+
+export class OrderLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Order[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Order[]>(value);
+  }
+}
+
+export class TreasuryWithdrawalLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): TreasuryWithdrawal[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<TreasuryWithdrawal[]>(value);
+  }
+}
+
+export class AttributeLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Attribute[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Attribute[]>(value);
+  }
+}
+
+export class StyleLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): Style[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<Style[]>(value);
+  }
+}
+
+export class MetadataResultLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): MetadataResult[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<MetadataResult[]>(value);
+  }
+}
+
+export class ProvenanceChangeLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): ProvenanceChange[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<ProvenanceChange[]>(value);
+  }
+}
+
+export class BaseURIChangeLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): BaseURIChange[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<BaseURIChange[]>(value);
+  }
+}
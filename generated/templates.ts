@@ -11,3 +11,13 @@ export class NFTMetadata extends DataSourceTemplate {
     DataSourceTemplate.createWithContext("NFTMetadata", [cid], context);
   }
 }
+
+export class ArweaveMetadata extends DataSourceTemplate {
+  static create(cid: string): void {
+    DataSourceTemplate.create("ArweaveMetadata", [cid]);
+  }
+
+  static createWithContext(cid: string, context: DataSourceContext): void {
+    DataSourceTemplate.createWithContext("ArweaveMetadata", [cid], context);
+  }
+}
@@ -1,5 +1,5 @@
 import { BigInt, Bytes } from "@graphprotocol/graph-ts";
-import { Account, AccountHistory, Transaction } from "../../generated/schema";
+import { Account, AccountHistory } from "../../generated/schema";
 import { BIGINT_ONE, BIGINT_ZERO } from "./constant";
 
 /**
@@ -35,6 +35,18 @@ export function loadOrCreateAccount(accountId: Bytes): Account {
     account.isFarmer = false;
     account.isTrader = false;
 
+    // Initialize holding metrics to zero. These fields track how many tokens the account holds and for how long.
+    account.currentTokensHeld = BIGINT_ZERO;
+    account.completedHoldCount = BIGINT_ZERO;
+    account.totalHoldDuration = BIGINT_ZERO;
+    account.averageHoldDuration = BIGINT_ZERO;
+    account.longestHold = BIGINT_ZERO;
+    account.holdingScore = BIGINT_ZERO;
+    account.holdingScoreUpdatedAt = BIGINT_ZERO;
+
+    // Initialize primary sale spending to zero. This field tracks the ETH paid by the account to mint tokens.
+    account.primarySpend = BIGINT_ZERO;
+
     // Initialize transaction details to zero or empty values. These fields store the transaction metadata.
     account.logIndex = BIGINT_ZERO;
     account.txHash = Bytes.empty();
@@ -50,8 +62,7 @@ export function loadOrCreateAccount(accountId: Bytes): Account {
  * AccountHistory is a log that stores historical data for each transaction.
  *
  * @param account - The current state of the Account entity.
- * @param accountType - The type of the account (e.g., OG, Collector) at the time of this history entry.
- 
+ */
 export function createAccountHistory(account: Account): void {
   // Generate a unique ID for the AccountHistory entity. This ID is a combination of the account ID and the transaction count.
   let historyId = account.id + "-" + account.transactionCount.toString();
@@ -69,6 +80,7 @@ export function createAccountHistory(account: Account): void {
   accountHistory.mintCount = account.mintCount;
   accountHistory.buyCount = account.buyCount;
   accountHistory.saleCount = account.saleCount;
+  accountHistory.accountType = determineAccountType(account);
 
   // Copy the transaction metadata from the Account entity to the AccountHistory entity.
   accountHistory.logIndex = account.logIndex;
@@ -79,7 +91,63 @@ export function createAccountHistory(account: Account): void {
   // Save the AccountHistory entity to the store.
   // The history is saved immediately because it's a complete record of a past state.
   accountHistory.save();
-}*/
+}
+
+/**
+ * Accrues the time-weighted holding score of an account up to a given timestamp.
+ * Every token held adds one point per second, so the score must be accrued before the number
+ * of tokens held changes.
+ *
+ * @param account - The Account entity to be updated.
+ * @param timestamp - The timestamp up to which the score is accrued.
+ */
+export function accrueHoldingScore(account: Account, timestamp: BigInt): void {
+  let elapsed = timestamp.minus(account.holdingScoreUpdatedAt);
+  account.holdingScore = account.holdingScore.plus(
+    account.currentTokensHeld.times(elapsed)
+  );
+  account.holdingScoreUpdatedAt = timestamp;
+}
+
+/**
+ * Updates the holding metrics of an account when a token enters it.
+ *
+ * @param account - The Account entity receiving the token.
+ * @param timestamp - The timestamp of the block in which the token is received.
+ */
+export function recordTokenAcquired(account: Account, timestamp: BigInt): void {
+  accrueHoldingScore(account, timestamp);
+  account.currentTokensHeld = account.currentTokensHeld.plus(BIGINT_ONE);
+}
+
+/**
+ * Updates the holding metrics of an account when a token leaves it.
+ *
+ * @param account - The Account entity sending the token.
+ * @param holdingDuration - The number of seconds the account held the token.
+ * @param timestamp - The timestamp of the block in which the token is sent.
+ */
+export function recordTokenReleased(
+  account: Account,
+  holdingDuration: BigInt,
+  timestamp: BigInt
+): void {
+  // Step 1: Accrue the score with the token still counted as held.
+  accrueHoldingScore(account, timestamp);
+  if (account.currentTokensHeld.gt(BIGINT_ZERO)) {
+    account.currentTokensHeld = account.currentTokensHeld.minus(BIGINT_ONE);
+  }
+
+  // Step 2: Add the closed holding period to the duration metrics.
+  account.completedHoldCount = account.completedHoldCount.plus(BIGINT_ONE);
+  account.totalHoldDuration = account.totalHoldDuration.plus(holdingDuration);
+  account.averageHoldDuration = account.totalHoldDuration.div(
+    account.completedHoldCount
+  );
+  if (holdingDuration.gt(account.longestHold)) {
+    account.longestHold = holdingDuration;
+  }
+}
 
 /**
  * This function updates the transaction counts in the Account entity based on the transaction type.
@@ -116,42 +184,6 @@ export function updateTransactionCounts(
   account.save;
 }
 
-/**
- * Function to determine the account type based on transaction history.
- *
- * This function increments the counts for different transaction types (MINT, TRADE, TRANSFER)
- * in the Account entity. These counts are used later to categorize the account type.
- *
- * @param account - The Account entity being updated.
- * @param transaction - The Transaction entity containing the transaction details.
- */
-export function determineAccountType(
-  account: Account,
-  transaction: Transaction
-): void {
-  // Incrementing the respective count based on the transaction type
-  if (transaction.transactionType == "MINT") {
-    // If the transaction is a MINT, increment mintCount
-    account.mintCount = account.mintCount.plus(BIGINT_ONE);
-  } else if (transaction.transactionType == "TRADE") {
-    // If the transaction is a TRADE, check if the account is the buyer or seller
-    if (transaction.buyer) {
-      account.buyCount = account.buyCount.plus(BIGINT_ONE); // Increment buyCount if buyer
-    } else {
-      account.saleCount = account.saleCount.plus(BIGINT_ONE); // Increment saleCount if seller
-    }
-  } else if (transaction.transactionType == "TRANSFER") {
-    // If the transaction is a TRANSFER, increment transactionCount
-    account.transactionCount = account.transactionCount.plus(BIGINT_ONE);
-  }
-
-  // Increment the overall transactionCount regardless of the type
-  account.transactionCount = account.transactionCount.plus(BIGINT_ONE);
-
-  // Persist the changes to the account entity
-  account.save();
-}
-
 // Helper function to update account types
 // Determines the account type based on the account's activity (mint, buy, and sale counts).
 // Sets the appropriate flags for the account type and saves the updated entity.
@@ -203,13 +235,14 @@ export function updateAccountType(account: Account): void {
   }
   account.save(); // Save the updated account to the store.
 }
+
 /**
  * Determines the account type based on the account's transaction history.
  * The function returns a string representing the account type, which can be OG, Collector, Hunter, Farmer, or Trader.
  *
  * @param account - The Account entity to evaluate.
  * @returns The account type as a string.
- 
+ */
 export function determineAccountType(account: Account): string {
   // Determine the account type based on the mint, buy, and sale counts.
 
@@ -252,4 +285,4 @@ export function determineAccountType(account: Account): string {
     // If none of the above conditions are met, return "Unknown" or another default type.
     return "Unknown";
   }
-}*/
+}
@@ -0,0 +1,77 @@
+import { Address, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import {
+  OperatorApproval,
+  OperatorApprovalChange,
+} from "../../generated/schema";
+import { BIGINT_ONE, BIGINT_ZERO } from "./constant";
+
+/**
+ * Loads the OperatorApproval entity of an owner and operator from the store.
+ * If it doesn't exist, it creates it as not approved.
+ *
+ * @param owner - The address of the owner of the tokens.
+ * @param operator - The address of the operator.
+ * @returns The loaded or newly created OperatorApproval entity.
+ */
+export function loadOrCreateOperatorApproval(
+  owner: Address,
+  operator: Address
+): OperatorApproval {
+  let id = owner.toHex() + "-" + operator.toHex();
+  let approval = OperatorApproval.load(id);
+
+  if (!approval) {
+    approval = new OperatorApproval(id);
+    approval.owner = owner.toHex();
+    approval.operator = operator;
+    approval.approved = false;
+    approval.changeCount = BIGINT_ZERO;
+
+    // Initialize transaction details to zero or empty values.
+    approval.txHash = Bytes.empty();
+    approval.blockNumber = BIGINT_ZERO;
+    approval.blockTimestamp = BIGINT_ZERO;
+  }
+
+  return approval;
+}
+
+/**
+ * Records an ApprovalForAll event and updates the current status of the operator.
+ *
+ * @param owner - The address of the owner of the tokens.
+ * @param operator - The address of the operator.
+ * @param approved - True if the operator is granted, false if it is revoked.
+ * @param event - The ApprovalForAll event.
+ * @returns The updated OperatorApproval entity.
+ */
+export function recordOperatorApproval(
+  owner: Address,
+  operator: Address,
+  approved: boolean,
+  event: ethereum.Event
+): OperatorApproval {
+  let approval = loadOrCreateOperatorApproval(owner, operator);
+
+  // Step 1: Record the change in the history of the approval.
+  let change = new OperatorApprovalChange(
+    event.transaction.hash.toHex() + "-" + event.logIndex.toString()
+  );
+  change.operatorApproval = approval.id;
+  change.approved = approved;
+  change.logIndex = event.logIndex;
+  change.txHash = event.transaction.hash;
+  change.blockNumber = event.block.number;
+  change.blockTimestamp = event.block.timestamp;
+  change.save();
+
+  // Step 2: Update the current status of the approval.
+  approval.approved = approved;
+  approval.changeCount = approval.changeCount.plus(BIGINT_ONE);
+  approval.txHash = event.transaction.hash;
+  approval.blockNumber = event.block.number;
+  approval.blockTimestamp = event.block.timestamp;
+  approval.save();
+
+  return approval;
+}
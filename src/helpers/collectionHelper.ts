@@ -0,0 +1,193 @@
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import { CryptoCoven } from "../../generated/CryptoCoven/CryptoCoven";
+import { Account, Burn, Collection, CovenToken } from "../../generated/schema";
+import { BIGINT_ONE, BIGINT_ZERO, ZERO_ADDRESS } from "./constant";
+
+/**
+ * Loads the Collection entity of the CryptoCoven contract from the store.
+ * If it doesn't exist, it creates it with all counters set to zero and the mint limits and prices read from the contract.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @returns The loaded or newly created Collection entity.
+ */
+export function loadOrCreateCollection(contractAddress: Address): Collection {
+  let collection = Collection.load(contractAddress.toHex());
+
+  if (!collection) {
+    collection = new Collection(contractAddress.toHex());
+    collection.totalMinted = BIGINT_ZERO;
+    collection.totalBurned = BIGINT_ZERO;
+    collection.totalSupply = BIGINT_ZERO;
+    collection.circulatingSupply = BIGINT_ZERO;
+    collection.holderCount = BIGINT_ZERO;
+    collection.uniqueMinters = BIGINT_ZERO;
+    collection.communitySaleMinted = BIGINT_ZERO;
+    collection.giftedMinted = BIGINT_ZERO;
+    collection.secondarySaleCount = BIGINT_ZERO;
+    collection.secondaryVolume = BIGINT_ZERO;
+    collection.primaryRevenue = BIGINT_ZERO;
+    collection.primaryRevenueWithdrawn = BIGINT_ZERO;
+    collection.withdrawalCount = BIGINT_ZERO;
+
+    // Read the mint limits set in the contract.
+    // try_ is used so a reverted call doesn't fail the whole subgraph.
+    let contract = CryptoCoven.bind(contractAddress);
+    let maxWitchesResult = contract.try_maxWitches();
+    collection.maxWitches = maxWitchesResult.reverted
+      ? BIGINT_ZERO
+      : maxWitchesResult.value;
+    let maxCommunitySaleWitchesResult = contract.try_maxCommunitySaleWitches();
+    collection.maxCommunitySaleWitches = maxCommunitySaleWitchesResult.reverted
+      ? BIGINT_ZERO
+      : maxCommunitySaleWitchesResult.value;
+    let maxGiftedWitchesResult = contract.try_maxGiftedWitches();
+    collection.maxGiftedWitches = maxGiftedWitchesResult.reverted
+      ? BIGINT_ZERO
+      : maxGiftedWitchesResult.value;
+
+    // Read the mint prices set in the contract.
+    let publicSalePriceResult = contract.try_PUBLIC_SALE_PRICE();
+    collection.publicSalePrice = publicSalePriceResult.reverted
+      ? BIGINT_ZERO
+      : publicSalePriceResult.value;
+    let communitySalePriceResult = contract.try_COMMUNITY_SALE_PRICE();
+    collection.communitySalePrice = communitySalePriceResult.reverted
+      ? BIGINT_ZERO
+      : communitySalePriceResult.value;
+    collection.save();
+  }
+
+  return collection;
+}
+
+/**
+ * Records the mint of a token on the supply and minter counters of the collection.
+ * Mint progress is counted by the mint call handlers, which know the phase of the mint.
+ *
+ * @param minter - The Account receiving the minted token. Must be called before its mintCount is incremented.
+ * @param event - The Transfer event of the mint.
+ */
+export function recordMint(minter: Account, event: ethereum.Event): void {
+  let collection = loadOrCreateCollection(event.address);
+
+  // Step 1: Add the token to the supply.
+  collection.totalMinted = collection.totalMinted.plus(BIGINT_ONE);
+  collection.totalSupply = collection.totalSupply.plus(BIGINT_ONE);
+  collection.circulatingSupply = collection.circulatingSupply.plus(BIGINT_ONE);
+
+  // Step 2: Count the minter the first time it mints.
+  if (minter.mintCount.isZero()) {
+    collection.uniqueMinters = collection.uniqueMinters.plus(BIGINT_ONE);
+  }
+
+  collection.save();
+}
+
+/**
+ * Counts tokens minted in a phase against the mint limit of the phase.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param mintPhase - The phase the tokens were minted in.
+ * @param quantity - The number of tokens minted.
+ */
+export function recordMintProgress(
+  contractAddress: Address,
+  mintPhase: string,
+  quantity: i32
+): void {
+  let collection = loadOrCreateCollection(contractAddress);
+  let amount = BigInt.fromI32(quantity);
+
+  if (mintPhase == "COMMUNITY") {
+    collection.communitySaleMinted =
+      collection.communitySaleMinted.plus(amount);
+  } else if (mintPhase == "GIFT" || mintPhase == "RESERVE") {
+    collection.giftedMinted = collection.giftedMinted.plus(amount);
+  }
+
+  collection.save();
+}
+
+/**
+ * Updates the holder count of the collection after a token entered or left an account.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param account - The Account the token entered or left, with its updated currentTokensHeld.
+ * @param acquired - True if the token entered the account, false if it left it.
+ */
+export function updateHolderCount(
+  contractAddress: Address,
+  account: Account,
+  acquired: boolean
+): void {
+  // The holder count only changes when an account gets its first token or sends its last one.
+  if (acquired && account.currentTokensHeld.equals(BIGINT_ONE)) {
+    let collection = loadOrCreateCollection(contractAddress);
+    collection.holderCount = collection.holderCount.plus(BIGINT_ONE);
+    collection.save();
+  } else if (!acquired && account.currentTokensHeld.isZero()) {
+    let collection = loadOrCreateCollection(contractAddress);
+    collection.holderCount = collection.holderCount.minus(BIGINT_ONE);
+    collection.save();
+  }
+}
+
+/**
+ * Records a sale of a token on OpenSea on the secondary market counters of the collection.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param price - The price the token was sold for.
+ */
+export function recordSecondarySale(
+  contractAddress: Address,
+  price: BigInt
+): void {
+  let collection = loadOrCreateCollection(contractAddress);
+  collection.secondarySaleCount =
+    collection.secondarySaleCount.plus(BIGINT_ONE);
+  collection.secondaryVolume = collection.secondaryVolume.plus(price);
+  collection.save();
+}
+
+/**
+ * Records the burn of a token: creates the Burn entity, marks the token as burned
+ * and takes it out of the circulating supply of the collection.
+ *
+ * @param token - The CovenToken being burned. The caller is responsible for saving it.
+ * @param fromAccount - The Account that sent the token to the burn address.
+ * @param burnAddress - The burn address the token was sent to.
+ * @param event - The Transfer event to the burn address.
+ */
+export function recordBurn(
+  token: CovenToken,
+  fromAccount: Account,
+  burnAddress: Bytes,
+  event: ethereum.Event
+): void {
+  // Step 1: Create the Burn entity, keyed by the Transfer event.
+  let burn = new Burn(
+    event.transaction.hash.toHex() + "-" + event.logIndex.toString()
+  );
+  burn.token = token.id;
+  burn.from = fromAccount.id;
+  burn.burnAddress = burnAddress;
+  burn.logIndex = event.logIndex;
+  burn.txHash = event.transaction.hash;
+  burn.blockNumber = event.block.number;
+  burn.blockTimestamp = event.block.timestamp;
+  burn.save();
+
+  // Step 2: Mark the token as burned.
+  token.burned = true;
+  token.burn = burn.id;
+
+  // Step 3: Take the token out of the circulating supply.
+  // Only a burn to the zero address removes the token from the on-chain supply.
+  let collection = loadOrCreateCollection(event.address);
+  collection.totalBurned = collection.totalBurned.plus(BIGINT_ONE);
+  if (burnAddress.equals(ZERO_ADDRESS)) {
+    collection.totalSupply = collection.totalSupply.minus(BIGINT_ONE);
+  }
+  collection.circulatingSupply = collection.circulatingSupply.minus(BIGINT_ONE);
+  collection.save();
+}
@@ -1,4 +1,5 @@
 import {
+  Address,
   BigDecimal,
   BigInt,
   ByteArray,
@@ -20,10 +21,83 @@ export const ZERO_ADDRESS = Bytes.fromHexString(
   "0x0000000000000000000000000000000000000000"
 );
 
+// Define a constant representing the conventional dead address used to burn tokens.
+export const DEAD_ADDRESS = Bytes.fromHexString(
+  "0x000000000000000000000000000000000000dEaD"
+);
+
+// Define the addresses a token is burned by being sent to.
+// Add any other burn sink to this list to have transfers to it counted as burns.
+export const BURN_ADDRESSES: Array<Bytes> = [ZERO_ADDRESS, DEAD_ADDRESS];
+
+// Define the operators of known marketplaces, ApprovalForAll grants to any other operator are flagged.
+// Add any other marketplace proxy to this list to stop flagging grants to it.
+export const KNOWN_MARKETPLACE_OPERATORS: Array<Bytes> = [
+  // OpenSea Seaport conduit
+  Bytes.fromHexString("0x1E0049783F008A0085193E00003D00cd54003c71"),
+  // LooksRare TransferManagerERC721 (v1) and TransferManager (v2)
+  Bytes.fromHexString("0xf42aa99F011A1fA7CDA90E5E98b277E306BcA83e"),
+  Bytes.fromHexString("0x000000000060C4Ca14CfC4325359062ace33Fe3D"),
+  // X2Y2 ERC721Delegate
+  Bytes.fromHexString("0xF849de01B080aDC3A814FaBE1E2087475cF2E354"),
+  // Blur ExecutionDelegate
+  Bytes.fromHexString("0x00000000000111AbE46ff893f3B2fdF1F759a8A8"),
+  // Rarible TransferProxy
+  Bytes.fromHexString("0x4feE7B061C97C9c496b01DbcE9CDb10c02f0a0Be"),
+];
+
+// Define the address of the Wyvern proxy registry of OpenSea. Before Seaport, OpenSea listings were
+// approved to a proxy deployed for each user, so grants to the proxy registered for the owner aren't flagged.
+export const WYVERN_PROXY_REGISTRY_ADDRESS = Address.fromString(
+  "0xa5409ec958C83C3f309868babACA7c86DCB077c1"
+);
+
+// Define the number of blocks after an ApprovalForAll grant during which a transfer sent by the operator is flagged.
+export const SUSPICIOUS_TRANSFER_WINDOW = BigInt.fromI32(100);
+
+// Define the number of values each order takes in the addrs, uints and feeMethodsSidesKindsHowToCalls
+// arrays of atomicMatch_. The buy order comes first and the sell order starts right after it.
+export const WYVERN_ADDRESSES_PER_ORDER = 7;
+export const WYVERN_UINTS_PER_ORDER = 9;
+export const WYVERN_ENUMS_PER_ORDER = 4;
+
+// Define the prefix used by token URIs that point to IPFS.
+export const IPFS_PREFIX = "ipfs://";
+
+// Define the path segment that precedes the CID in IPFS gateway URLs.
+export const IPFS_GATEWAY_SEGMENT = "/ipfs/";
+
+// Define the prefix used by token URIs that point to Arweave.
+export const ARWEAVE_PREFIX = "ar://";
+
+// Define the storage protocols a metadata file can be fetched from, matching the StorageProtocol enum.
+export const STORAGE_PROTOCOL_IPFS = "IPFS";
+export const STORAGE_PROTOCOL_ARWEAVE = "ARWEAVE";
+
+// Define the keys used to pass token and URI details to the metadata file data source context.
+export const TOKEN_ID_CONTEXT_KEY = "tokenId";
+export const STORAGE_PROTOCOL_CONTEXT_KEY = "storageProtocol";
+export const CID_CONTEXT_KEY = "cid";
+export const PATH_CONTEXT_KEY = "path";
+export const VERSION_CONTEXT_KEY = "version";
+
+// Define the reasons a metadata file could not be fully indexed, matching the MetadataError enum.
+export const METADATA_ERROR_NONE = "NONE";
+export const METADATA_ERROR_MALFORMED_JSON = "MALFORMED_JSON";
+export const METADATA_ERROR_WRONG_SCHEMA = "WRONG_SCHEMA";
+export const METADATA_ERROR_MISSING_FIELDS = "MISSING_FIELDS";
+export const METADATA_ERROR_TOKEN_URI_REVERTED = "TOKEN_URI_REVERTED";
+export const METADATA_ERROR_UNSUPPORTED_URI = "UNSUPPORTED_URI";
+
+// Define the states of a metadata request, matching the MetadataRequestState enum.
+export const METADATA_REQUEST_PENDING = "PENDING";
+export const METADATA_REQUEST_FAILED = "FAILED";
+
 // Define a constant representing the address of the CryptoCoven contract.
 export const CRYPTOCOVEN_ADDRESS = "0x5180db8F5c931aaE63c74266b211F580155ecac8";
 
-export const COVEN_ADDRESS = Bytes.fromUTF8(CRYPTOCOVEN_ADDRESS);
+// Define the address of the CryptoCoven contract as an Address, to compare it with the address of a log.
+export const COVEN_ADDRESS = Address.fromString(CRYPTOCOVEN_ADDRESS);
 
 export const OPENSEA_ADDRESS = Bytes.fromUTF8(
   "0x7f268357A8c2552623316e2562D90e642bB538E5"
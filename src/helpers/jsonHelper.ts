@@ -0,0 +1,119 @@
+import { JSONValue, JSONValueKind, TypedMap } from "@graphprotocol/graph-ts";
+
+/**
+ * Checks whether a JSON number is an integer.
+ * toI64 and toBigInt abort the handler on a number written with a fraction or an exponent, e.g. 8.5,
+ * so numbers are always read with toF64.
+ *
+ * @param value - The JSON number to check.
+ * @returns True if the number has no fractional part.
+ */
+function isIntegerNumber(value: JSONValue): boolean {
+  let number = value.toF64();
+  return number == Math.floor(number);
+}
+
+/**
+ * Reads a string field from a JSON object.
+ *
+ * @param object - The JSON object to read from.
+ * @param key - The key of the field.
+ * @returns The string value, or an empty string if the field is missing or not a string.
+ */
+export function getStringField(
+  object: TypedMap<string, JSONValue>,
+  key: string
+): string {
+  let value = object.get(key);
+
+  // Fall back to an empty string when the field is missing or has another type.
+  if (!value || value.kind != JSONValueKind.STRING) {
+    return "";
+  }
+
+  return value.toString();
+}
+
+/**
+ * Reads an integer field from a JSON object.
+ *
+ * @param object - The JSON object to read from.
+ * @param key - The key of the field.
+ * @returns The integer value, or zero if the field is missing or not an integer.
+ */
+export function getIntField(
+  object: TypedMap<string, JSONValue>,
+  key: string
+): i32 {
+  let value = object.get(key);
+
+  // Fall back to zero when the field is missing, has another type or has a fractional part.
+  if (!value || value.kind != JSONValueKind.NUMBER || !isIntegerNumber(value)) {
+    return 0;
+  }
+
+  return value.toF64() as i32;
+}
+
+/**
+ * Reads a nested object field from a JSON object.
+ *
+ * @param object - The JSON object to read from.
+ * @param key - The key of the field.
+ * @returns The nested object, or null if the field is missing or not an object.
+ */
+export function getObjectField(
+  object: TypedMap<string, JSONValue>,
+  key: string
+): TypedMap<string, JSONValue> | null {
+  let value = object.get(key);
+
+  if (!value || value.kind != JSONValueKind.OBJECT) {
+    return null;
+  }
+
+  return value.toObject();
+}
+
+/**
+ * Reads an array field from a JSON object.
+ *
+ * @param object - The JSON object to read from.
+ * @param key - The key of the field.
+ * @returns The array, or an empty array if the field is missing or not an array.
+ */
+export function getArrayField(
+  object: TypedMap<string, JSONValue>,
+  key: string
+): Array<JSONValue> {
+  let value = object.get(key);
+
+  if (!value || value.kind != JSONValueKind.ARRAY) {
+    return [];
+  }
+
+  return value.toArray();
+}
+
+/**
+ * Converts a JSON value to a string.
+ * Attribute values can be either strings or numbers, so numbers are converted to their string form.
+ * Integers are written without a fractional part, e.g. 8 rather than 8.0.
+ *
+ * @param value - The JSON value to convert.
+ * @returns The string form of the value, or an empty string for other types.
+ */
+export function jsonValueToString(value: JSONValue): string {
+  if (value.kind == JSONValueKind.STRING) {
+    return value.toString();
+  }
+
+  if (value.kind == JSONValueKind.NUMBER) {
+    if (isIntegerNumber(value)) {
+      return (value.toF64() as i64).toString();
+    }
+    return value.toF64().toString();
+  }
+
+  return "";
+}
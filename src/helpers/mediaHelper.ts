@@ -0,0 +1,105 @@
+import { Media } from "../../generated/schema";
+import { normalizeURI } from "./uriHelper";
+
+/**
+ * Extracts the lowercase file extension of a URI, ignoring any query string or fragment.
+ *
+ * @param uri - The URI of the media file.
+ * @returns The extension without the dot, or an empty string if the file has no extension.
+ */
+export function extractExtension(uri: string): string {
+  // Step 1: Drop the query string and fragment, they are not part of the file name.
+  let end = uri.length;
+  let queryIndex = uri.indexOf("?");
+  if (queryIndex != -1 && queryIndex < end) end = queryIndex;
+  let fragmentIndex = uri.indexOf("#");
+  if (fragmentIndex != -1 && fragmentIndex < end) end = fragmentIndex;
+  let path = uri.substring(0, end);
+
+  // Step 2: Keep the last segment of the path, the file name.
+  let fileName = path.substring(path.lastIndexOf("/") + 1);
+
+  // Step 3: The extension follows the last dot of the file name.
+  let dotIndex = fileName.lastIndexOf(".");
+  if (dotIndex == -1) {
+    return "";
+  }
+
+  return fileName.substring(dotIndex + 1).toLowerCase();
+}
+
+/**
+ * Infers the MIME type of a media file from its extension.
+ *
+ * @param uri - The URI of the media file.
+ * @returns The MIME type, or an empty string if the extension is unknown.
+ */
+export function inferMediaType(uri: string): string {
+  let extension = extractExtension(uri);
+
+  // Images
+  if (extension == "png") return "image/png";
+  if (extension == "jpg" || extension == "jpeg") return "image/jpeg";
+  if (extension == "gif") return "image/gif";
+  if (extension == "svg") return "image/svg+xml";
+  if (extension == "webp") return "image/webp";
+
+  // Videos
+  if (extension == "mp4") return "video/mp4";
+  if (extension == "webm") return "video/webm";
+  if (extension == "mov") return "video/quicktime";
+
+  // Audio
+  if (extension == "mp3") return "audio/mpeg";
+  if (extension == "wav") return "audio/wav";
+
+  // 3D models and interactive media
+  if (extension == "glb") return "model/gltf-binary";
+  if (extension == "gltf") return "model/gltf+json";
+  if (extension == "html") return "text/html";
+
+  return "";
+}
+
+/**
+ * Creates the Media entity of a media field of the metadata JSON.
+ * URIs pointing to IPFS or Arweave, including gateway URLs, are normalized to their CID and a
+ * gateway-neutral URI. Other URIs are kept as they are.
+ *
+ * @param metadataId - The ID of the NFTMetadata that references the media.
+ * @param tokenId - The ID of the CovenToken the metadata describes.
+ * @param field - The metadata field the media is referenced by.
+ * @param rawURI - The URI as it appears in the metadata JSON.
+ * @returns The ID of the saved Media entity, or null if the field is empty.
+ */
+export function createMedia(
+  metadataId: string,
+  tokenId: string,
+  field: string,
+  rawURI: string
+): string | null {
+  // Nothing to normalize if the field isn't set.
+  if (rawURI.length == 0) {
+    return null;
+  }
+
+  let media = new Media(metadataId + "-" + field);
+  media.token = tokenId;
+  media.metadata = metadataId;
+  media.field = field;
+  media.rawURI = rawURI;
+  media.mediaType = inferMediaType(rawURI);
+
+  // Files on decentralized storage get their canonical CID and gateway-neutral URI.
+  let normalizedURI = normalizeURI(rawURI);
+  if (normalizedURI) {
+    media.storageProtocol = normalizedURI.storageProtocol;
+    media.cid = normalizedURI.cid;
+    media.canonicalURI = normalizedURI.canonical;
+  } else {
+    media.canonicalURI = rawURI;
+  }
+
+  media.save();
+  return media.id;
+}
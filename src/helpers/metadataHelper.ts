@@ -0,0 +1,203 @@
+import {
+  Address,
+  BigInt,
+  DataSourceContext,
+  ethereum,
+  log,
+} from "@graphprotocol/graph-ts";
+import { CryptoCoven } from "../../generated/CryptoCoven/CryptoCoven";
+import { CovenToken } from "../../generated/schema";
+import {
+  ArweaveMetadata as ArweaveMetadataTemplate,
+  NFTMetadata as NFTMetadataTemplate,
+} from "../../generated/templates";
+import {
+  CID_CONTEXT_KEY,
+  METADATA_ERROR_TOKEN_URI_REVERTED,
+  METADATA_ERROR_UNSUPPORTED_URI,
+  PATH_CONTEXT_KEY,
+  STORAGE_PROTOCOL_ARWEAVE,
+  STORAGE_PROTOCOL_CONTEXT_KEY,
+  TOKEN_ID_CONTEXT_KEY,
+  VERSION_CONTEXT_KEY,
+} from "./constant";
+import {
+  recordMetadataRequest,
+  recordMetadataRequestFailure,
+} from "./statusHelper";
+import { normalizeURI } from "./uriHelper";
+
+/**
+ * Builds the tokenURI of a token from a base URI.
+ * Mirrors the contract, which returns `baseURI + "/" + tokenId + ".json"`.
+ *
+ * @param baseURI - The base URI set on the contract.
+ * @param tokenId - The tokenId of the token.
+ * @returns The tokenURI of the token.
+ */
+export function buildTokenURI(baseURI: string, tokenId: BigInt): string {
+  return baseURI + "/" + tokenId.toString() + ".json";
+}
+
+/**
+ * Spawns the file data source that indexes the metadata JSON of a token.
+ * IPFS URIs, including gateway URLs, are fetched by the NFTMetadata template and
+ * Arweave URIs by the ArweaveMetadata template.
+ *
+ * The tokenId and the request version are passed to the data source through its context so the
+ * NFTMetadata and MetadataResult entities can be linked back to the CovenToken they describe.
+ * Nothing is spawned if the token already points to the same source, e.g. when a base URI change
+ * lands on the root its metadata was already indexed from.
+ *
+ * @param token - The CovenToken entity to link to its metadata. The caller is responsible for saving it.
+ * @param tokenURI - The tokenURI pointing to the metadata JSON.
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param block - The block in which the metadata is requested.
+ */
+export function spawnTokenMetadata(
+  token: CovenToken,
+  tokenURI: string,
+  contractAddress: Address,
+  block: ethereum.Block
+): void {
+  token.tokenURI = tokenURI;
+
+  // Step 1: Normalize the tokenURI to find where the metadata JSON is stored.
+  let normalizedURI = normalizeURI(tokenURI);
+
+  if (normalizedURI == null) {
+    log.warning("[spawnTokenMetadata] Unsupported tokenURI {} for token {}", [
+      tokenURI,
+      token.tokenId,
+    ]);
+    recordMetadataRequestFailure(
+      token,
+      tokenURI,
+      METADATA_ERROR_UNSUPPORTED_URI,
+      contractAddress,
+      block
+    );
+    return;
+  }
+
+  // Step 2: Skip the request if the token already points to this source.
+  // The entities of a metadata file are immutable and keyed by its source, so they can't be indexed twice.
+  let source = normalizedURI!.source;
+  if (token.metadata == source) {
+    log.info(
+      "[spawnTokenMetadata] Metadata of token {} already requested from {}",
+      [token.tokenId, source]
+    );
+    return;
+  }
+
+  // Step 3: Link the token to the NFTMetadata entity that the file data source will create.
+  // Metadata created for a previous source is kept, so older versions stay queryable.
+  token.storageProtocol = normalizedURI!.storageProtocol;
+  token.cid = normalizedURI!.cid;
+  token.path = normalizedURI!.path;
+  token.metadata = source;
+
+  // Step 4: Record the request on the MetadataStatus of the token.
+  let version = recordMetadataRequest(
+    token,
+    normalizedURI!,
+    contractAddress,
+    block
+  );
+
+  // Step 5: Spawn the file data source matching the storage with the token and URI details in its context.
+  let context = new DataSourceContext();
+  context.setString(TOKEN_ID_CONTEXT_KEY, token.id);
+  context.setString(
+    STORAGE_PROTOCOL_CONTEXT_KEY,
+    normalizedURI!.storageProtocol
+  );
+  context.setString(CID_CONTEXT_KEY, normalizedURI!.cid);
+  context.setString(PATH_CONTEXT_KEY, normalizedURI!.path);
+  context.setI32(VERSION_CONTEXT_KEY, version);
+
+  if (normalizedURI!.storageProtocol == STORAGE_PROTOCOL_ARWEAVE) {
+    ArweaveMetadataTemplate.createWithContext(source, context);
+  } else {
+    NFTMetadataTemplate.createWithContext(source, context);
+  }
+}
+
+/**
+ * Fetches the tokenURI of a token from the contract and spawns the NFTMetadata file data source
+ * that indexes its metadata JSON.
+ *
+ * @param token - The CovenToken entity to link to its metadata. The caller is responsible for saving it.
+ * @param tokenId - The tokenId used to query the tokenURI.
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param block - The block in which the token is minted.
+ */
+export function createTokenMetadata(
+  token: CovenToken,
+  tokenId: BigInt,
+  contractAddress: Address,
+  block: ethereum.Block
+): void {
+  // Query the tokenURI from the contract.
+  // try_ is used so a reverted call doesn't fail the whole subgraph.
+  let contract = CryptoCoven.bind(contractAddress);
+  let tokenURIResult = contract.try_tokenURI(tokenId);
+
+  if (tokenURIResult.reverted) {
+    log.warning("[createTokenMetadata] tokenURI reverted for token {}", [
+      tokenId.toString(),
+    ]);
+    recordMetadataRequestFailure(
+      token,
+      "",
+      METADATA_ERROR_TOKEN_URI_REVERTED,
+      contractAddress,
+      block
+    );
+    return;
+  }
+
+  spawnTokenMetadata(token, tokenURIResult.value, contractAddress, block);
+}
+
+/**
+ * Re-resolves the metadata of every minted token after the base URI moved to a new root.
+ * The tokenURI of each token is rebuilt from the new base URI, so no call is made per token.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param baseURI - The new base URI set on the contract.
+ * @param block - The block in which the base URI is changed.
+ */
+export function refreshTokenMetadata(
+  contractAddress: Address,
+  baseURI: string,
+  block: ethereum.Block
+): void {
+  // Step 1: Query the last minted tokenId to know how many tokens to refresh.
+  let contract = CryptoCoven.bind(contractAddress);
+  let lastTokenIdResult = contract.try_getLastTokenId();
+
+  if (lastTokenIdResult.reverted) {
+    log.warning("[refreshTokenMetadata] getLastTokenId reverted", []);
+    return;
+  }
+
+  // Step 2: Spawn a new file data source for every token that has been indexed.
+  let lastTokenId = lastTokenIdResult.value.toI32();
+  for (let i = 1; i <= lastTokenId; i++) {
+    let tokenId = BigInt.fromI32(i);
+    let token = CovenToken.load(tokenId.toHex());
+
+    // Skip tokens that haven't been indexed yet.
+    if (!token) continue;
+
+    spawnTokenMetadata(
+      token,
+      buildTokenURI(baseURI, tokenId),
+      contractAddress,
+      block
+    );
+    token.save();
+  }
+}
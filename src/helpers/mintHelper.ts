@@ -0,0 +1,126 @@
+import { BigInt, ethereum, log } from "@graphprotocol/graph-ts";
+import { CovenToken, MintBatch } from "../../generated/schema";
+import { loadOrCreateCollection, recordMintProgress } from "./collectionHelper";
+import { getExpectedMintPrice, recordPrimarySale } from "./treasuryHelper";
+
+/**
+ * Loads the MintBatch entity of the transaction of a mint from the store.
+ * If it doesn't exist, it creates it with an empty list of tokens and the details of the transaction.
+ *
+ * @param event - The Transfer event of the mint.
+ * @returns The loaded or newly created MintBatch entity.
+ */
+export function loadOrCreateMintBatch(event: ethereum.Event): MintBatch {
+  let batch = MintBatch.load(event.transaction.hash.toHex());
+
+  if (!batch) {
+    batch = new MintBatch(event.transaction.hash.toHex());
+    batch.minter = event.transaction.from;
+    batch.tokens = [];
+    batch.quantity = 0;
+    batch.totalValue = event.transaction.value;
+    batch.classifiedCount = 0;
+
+    // The gas used is read from the receipt, which is only available when it's enabled in the manifest.
+    let receipt = event.receipt;
+    if (receipt) {
+      batch.gasUsed = receipt.gasUsed;
+    }
+
+    batch.txHash = event.transaction.hash;
+    batch.blockNumber = event.block.number;
+    batch.blockTimestamp = event.block.timestamp;
+  }
+
+  return batch;
+}
+
+/**
+ * Adds a minted token to the MintBatch of its transaction and links the token to it.
+ * The mint call handler of the transaction then uses the batch to tag the token with its mint phase.
+ *
+ * @param token - The CovenToken being minted. The caller is responsible for saving it.
+ * @param event - The Transfer event of the mint.
+ */
+export function recordMintedToken(
+  token: CovenToken,
+  event: ethereum.Event
+): void {
+  let batch = loadOrCreateMintBatch(event);
+
+  // Arrays of entities must be copied, updated and reassigned to be saved.
+  let tokens = batch.tokens;
+  tokens.push(token.id);
+  batch.tokens = tokens;
+  batch.quantity = tokens.length;
+  batch.save();
+
+  token.mintBatch = batch.id;
+}
+
+/**
+ * Tags the tokens minted by a mint call with their mint phase, entry point and price.
+ * The tokens of a call are the next untagged tokens of its transaction, since calls
+ * mint their tokens in the order they are made.
+ *
+ * The price of a token is the value of the transaction divided by the number of tokens it minted,
+ * as the value sent with an individual call isn't available to call handlers.
+ *
+ * @param call - The mint call.
+ * @param quantity - The number of tokens the call minted.
+ * @param mintPhase - The phase the tokens were minted in.
+ * @param entryPoint - The signature of the contract function that was called.
+ */
+export function classifyMintedTokens(
+  call: ethereum.Call,
+  quantity: i32,
+  mintPhase: string,
+  entryPoint: string
+): void {
+  // Step 1: Load the batch of tokens minted by the transaction of the call.
+  let batch = MintBatch.load(call.transaction.hash.toHex());
+
+  if (!batch) {
+    log.warning("[classifyMintedTokens] No mint found for {} in tx {}", [
+      entryPoint,
+      call.transaction.hash.toHex(),
+    ]);
+    return;
+  }
+
+  // Step 2: Tag the next untagged tokens of the transaction.
+  let tokens = batch.tokens;
+  let start = batch.classifiedCount;
+  let end = start + quantity;
+  if (end > tokens.length) {
+    log.warning("[classifyMintedTokens] {} minted {} tokens, {} found", [
+      entryPoint,
+      quantity.toString(),
+      (tokens.length - start).toString(),
+    ]);
+    end = tokens.length;
+  }
+
+  let collection = loadOrCreateCollection(call.to);
+  let expectedMintPrice = getExpectedMintPrice(collection, mintPhase);
+  let mintPrice = batch.totalValue.div(BigInt.fromI32(batch.quantity));
+
+  for (let i = start; i < end; i++) {
+    let token = CovenToken.load(tokens[i]);
+    if (!token) continue;
+
+    token.mintPhase = mintPhase;
+    token.mintEntryPoint = entryPoint;
+    token.mintPrice = mintPrice;
+    token.expectedMintPrice = expectedMintPrice;
+    token.save();
+  }
+
+  batch.classifiedCount = end;
+  batch.save();
+
+  // Step 3: Count the tokens against the mint limit of their phase
+  // and add the ETH paid for them to the primary revenue.
+  recordMintProgress(call.to, mintPhase, end - start);
+  recordPrimarySale(call, mintPrice.times(BigInt.fromI32(end - start)));
+}
@@ -0,0 +1,170 @@
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+import { Order, Sale, SaleBatch } from "../../generated/schema";
+import {
+  WYVERN_ADDRESSES_PER_ORDER,
+  WYVERN_ENUMS_PER_ORDER,
+  WYVERN_UINTS_PER_ORDER,
+} from "./constant";
+
+/**
+ * Maps the side of a Wyvern order to its OrderSide.
+ *
+ * @param side - The side of the order in the calldata: 0 for a buy order, 1 for a sell order.
+ * @returns The OrderSide of the order: BUY or SELL.
+ */
+export function getOrderSide(side: i32): string {
+  return side == 0 ? "BUY" : "SELL";
+}
+
+/**
+ * Maps the sale kind of a Wyvern order to its SaleKind.
+ *
+ * @param saleKind - The sale kind of the order in the calldata: 0 for a fixed price, 1 for a Dutch auction.
+ * @returns The SaleKind of the order: FIXED_PRICE or DUTCH_AUCTION.
+ */
+export function getSaleKind(saleKind: i32): string {
+  return saleKind == 0 ? "FIXED_PRICE" : "DUTCH_AUCTION";
+}
+
+/**
+ * Finds the sales made by an atomicMatch_ call in the SaleBatch of its transaction.
+ *
+ * Calls are made in the order of their OrdersMatched events, so the sales of a call are the next
+ * unlinked sales of the batch whose seller made the sell order and whose buyer made the buy order.
+ * An order selling several tokens made one sale per token, all paired with the same OrdersMatched.
+ *
+ * @param batch - The SaleBatch of the transaction. The caller is responsible for saving it.
+ * @param buyMaker - The maker of the buy order.
+ * @param sellMaker - The maker of the sell order.
+ * @returns The sales of the call, empty if the call didn't sell any witch.
+ */
+function findMatchedSales(
+  batch: SaleBatch,
+  buyMaker: Address,
+  sellMaker: Address
+): Array<Sale> {
+  let matched = new Array<Sale>();
+  let sales = batch.sales;
+
+  for (let i = batch.linkedCount; i < sales.length; i++) {
+    let sale = Sale.load(sales[i]);
+    if (!sale) continue;
+
+    // The first sale of the call decides which OrdersMatched the next sales must share.
+    if (matched.length == 0) {
+      if (sale.seller != sellMaker.toHex() || sale.buyer != buyMaker.toHex()) {
+        continue;
+      }
+    } else if (!sale.logIndex.equals(matched[0].logIndex)) {
+      break;
+    }
+
+    matched.push(sale);
+    batch.linkedCount = i + 1;
+  }
+
+  return matched;
+}
+
+/**
+ * Creates the immutable Order entity of one of the orders of an atomicMatch_ call.
+ *
+ * @param call - The atomicMatch_ call.
+ * @param sales - The sales made by the call, the first one holds the hashes of the orders.
+ * @param addrs - The addrs array of the call, holding the addresses of both orders.
+ * @param uints - The uints array of the call, holding the fees, prices and times of both orders.
+ * @param enums - The feeMethodsSidesKindsHowToCalls array of the call.
+ * @param position - The position of the order in the arrays: 0 for the buy order, 1 for the sell order.
+ * @returns The saved Order entity.
+ */
+function createOrder(
+  call: ethereum.Call,
+  sales: Array<Sale>,
+  addrs: Array<Address>,
+  uints: Array<BigInt>,
+  enums: Array<i32>,
+  position: i32
+): Order {
+  let a = position * WYVERN_ADDRESSES_PER_ORDER;
+  let u = position * WYVERN_UINTS_PER_ORDER;
+  let e = position * WYVERN_ENUMS_PER_ORDER;
+  let side = getOrderSide(enums[e + 1]);
+
+  let order = new Order(
+    sales[0].txHash.toHex() + "-" + sales[0].logIndex.toString() + "-" + side
+  );
+  order.hash = position == 0 ? sales[0].buyHash : sales[0].sellHash;
+
+  let saleIds = new Array<string>();
+  for (let i = 0; i < sales.length; i++) {
+    saleIds.push(sales[i].id);
+  }
+  order.sales = saleIds;
+
+  // Addresses: exchange, maker, taker, feeRecipient, target, staticTarget, paymentToken.
+  order.exchange = addrs[a];
+  order.maker = addrs[a + 1];
+  order.taker = addrs[a + 2];
+  order.feeRecipient = addrs[a + 3];
+  order.paymentToken = addrs[a + 6];
+
+  // Uints: the four fees, basePrice, extra, listingTime, expirationTime, salt.
+  order.makerRelayerFee = uints[u];
+  order.takerRelayerFee = uints[u + 1];
+  order.makerProtocolFee = uints[u + 2];
+  order.takerProtocolFee = uints[u + 3];
+  order.basePrice = uints[u + 4];
+  order.extra = uints[u + 5];
+  order.listingTime = uints[u + 6];
+  order.expirationTime = uints[u + 7];
+  order.salt = uints[u + 8];
+
+  // Enums: feeMethod, side, saleKind, howToCall.
+  order.side = side;
+  order.saleKind = getSaleKind(enums[e + 2]);
+
+  order.txHash = call.transaction.hash;
+  order.blockNumber = call.block.number;
+  order.blockTimestamp = call.block.timestamp;
+  order.save();
+
+  return order;
+}
+
+/**
+ * Decodes the buy and sell orders of an atomicMatch_ call and links them to the sales the call made.
+ * Nothing is recorded unless the call sold a witch, since the sales are recorded by the event handlers
+ * of the transaction, which run before its call handlers.
+ *
+ * @param call - The atomicMatch_ call.
+ * @param addrs - The addrs array of the call.
+ * @param uints - The uints array of the call.
+ * @param enums - The feeMethodsSidesKindsHowToCalls array of the call.
+ */
+export function recordMatchedOrders(
+  call: ethereum.Call,
+  addrs: Array<Address>,
+  uints: Array<BigInt>,
+  enums: Array<i32>
+): void {
+  // Step 1: Load the sales made by the transaction of the call.
+  let batch = SaleBatch.load(call.transaction.hash.toHex());
+  if (!batch) {
+    return;
+  }
+
+  // Step 2: Find the sales made by this call, from the makers of its buy and sell orders.
+  let sales = findMatchedSales(
+    batch,
+    addrs[1],
+    addrs[WYVERN_ADDRESSES_PER_ORDER + 1]
+  );
+  if (sales.length == 0) {
+    return;
+  }
+  batch.save();
+
+  // Step 3: Record both orders, linked to the sales.
+  createOrder(call, sales, addrs, uints, enums, 0);
+  createOrder(call, sales, addrs, uints, enums, 1);
+}
@@ -0,0 +1,98 @@
+import { ethereum } from "@graphprotocol/graph-ts";
+import { Account, CovenToken, Ownership } from "../../generated/schema";
+import { recordTokenAcquired, recordTokenReleased } from "./accountHelper";
+import { updateHolderCount } from "./collectionHelper";
+import { BIGINT_ONE } from "./constant";
+
+/**
+ * Maps the type of a transfer to how the receiving account acquired the token.
+ *
+ * @param transactionType - The type of the transfer: MINT, TRADE or TRANSFER.
+ * @returns The AcquisitionType of the new holding period.
+ */
+export function getAcquisitionType(transactionType: string): string {
+  if (transactionType == "MINT") return "MINT";
+  if (transactionType == "TRADE") return "PURCHASE";
+  return "TRANSFER";
+}
+
+/**
+ * Maps the type of a transfer to how the sending account released the token.
+ *
+ * @param transactionType - The type of the transfer: TRADE, BURN or TRANSFER.
+ * @returns The ReleaseType of the closed holding period.
+ */
+export function getReleaseType(transactionType: string): string {
+  if (transactionType == "TRADE") return "SALE";
+  if (transactionType == "BURN") return "BURN";
+  return "TRANSFER";
+}
+
+/**
+ * Records a transfer in the chain of custody of a token.
+ * The holding period of the sending account is closed and a new one is opened for the receiving account,
+ * and the holding metrics of both accounts and the holder count of the collection are updated.
+ * A burned token has no holder, so no holding period is opened for the burn address.
+ *
+ * @param token - The CovenToken being transferred. The caller is responsible for saving it.
+ * @param fromAccount - The Account sending the token. The caller is responsible for saving it.
+ * @param toAccount - The Account receiving the token. The caller is responsible for saving it.
+ * @param transactionType - The type of the transfer: MINT, TRADE, BURN or TRANSFER.
+ * @param event - The Transfer event.
+ */
+export function recordOwnershipChange(
+  token: CovenToken,
+  fromAccount: Account,
+  toAccount: Account,
+  transactionType: string,
+  event: ethereum.Event
+): void {
+  // Step 1: Close the current holding period, if the token already had a holder.
+  if (token.currentOwnership) {
+    let current = Ownership.load(token.currentOwnership!);
+    if (current) {
+      current.releaseType = getReleaseType(transactionType);
+      current.releasedAtBlock = event.block.number;
+      current.releasedAtTimestamp = event.block.timestamp;
+      current.releasedTxHash = event.transaction.hash;
+      current.holdingDuration = event.block.timestamp.minus(
+        current.acquiredAtTimestamp
+      );
+      current.save();
+
+      recordTokenReleased(
+        fromAccount,
+        current.holdingDuration!,
+        event.block.timestamp
+      );
+      updateHolderCount(event.address, fromAccount, false);
+    }
+  }
+
+  // A burned token leaves circulation and isn't credited to the burn address.
+  if (transactionType == "BURN") {
+    token.currentOwnership = null;
+    return;
+  }
+
+  // Step 2: Open a new holding period for the receiving account.
+  // The owner count is used to build a unique ID that keeps the periods in order.
+  token.ownerCount = token.ownerCount.plus(BIGINT_ONE);
+  let ownership = new Ownership(token.id + "-" + token.ownerCount.toString());
+  ownership.token = token.id;
+  ownership.holder = toAccount.id;
+  ownership.acquisitionType = getAcquisitionType(transactionType);
+  ownership.acquiredAtBlock = event.block.number;
+  ownership.acquiredAtTimestamp = event.block.timestamp;
+  ownership.acquiredTxHash = event.transaction.hash;
+  ownership.save();
+
+  recordTokenAcquired(toAccount, event.block.timestamp);
+  updateHolderCount(event.address, toAccount, true);
+
+  // Step 3: Point the token to its new holding period and remember who minted it.
+  token.currentOwnership = ownership.id;
+  if (transactionType == "MINT") {
+    token.originalMinter = toAccount.id;
+  }
+}
@@ -0,0 +1,140 @@
+import { Address, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import { CryptoCoven } from "../../generated/CryptoCoven/CryptoCoven";
+import {
+  BaseURIChange,
+  Provenance,
+  ProvenanceChange,
+} from "../../generated/schema";
+import { BIGINT_ONE, BIGINT_ZERO } from "./constant";
+
+/**
+ * Loads the Provenance entity of the CryptoCoven contract from the store.
+ * If it doesn't exist, it creates it with the verificationHash and base URI currently stored on-chain.
+ *
+ * An eth_call reads the state at the end of the block, so when the entity is created by the call handler
+ * of a setter, the chain already returns the value the call sets. The field being set is then left empty,
+ * so the call records its change from "", while the other field is still read from the chain.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param seedVerificationHash - Whether to read the verificationHash from the chain. False in setVerificationHash.
+ * @param seedBaseURI - Whether to read the base URI from the chain. False in setBaseURI.
+ * @returns The loaded or newly created Provenance entity.
+ */
+export function loadOrCreateProvenance(
+  contractAddress: Address,
+  seedVerificationHash: boolean = true,
+  seedBaseURI: boolean = true
+): Provenance {
+  let provenance = Provenance.load(contractAddress.toHex());
+
+  if (!provenance) {
+    provenance = new Provenance(contractAddress.toHex());
+    provenance.verificationHash = "";
+    provenance.changeCount = BIGINT_ZERO;
+    provenance.baseURI = "";
+    provenance.baseURIChangeCount = BIGINT_ZERO;
+
+    // try_ is used so a reverted call doesn't fail the whole subgraph.
+    let contract = CryptoCoven.bind(contractAddress);
+
+    // Read the verificationHash committed on-chain.
+    if (seedVerificationHash) {
+      let verificationHashResult = contract.try_verificationHash();
+      if (!verificationHashResult.reverted) {
+        provenance.verificationHash = verificationHashResult.value;
+      }
+    }
+
+    // Read the base URI the token URIs are currently built from.
+    if (seedBaseURI) {
+      let baseURIResult = contract.try_getBaseURI();
+      if (!baseURIResult.reverted) {
+        provenance.baseURI = baseURIResult.value;
+      }
+    }
+
+    // Initialize transaction details to zero or empty values.
+    provenance.txHash = Bytes.empty();
+    provenance.blockNumber = BIGINT_ZERO;
+    provenance.blockTimestamp = BIGINT_ZERO;
+    provenance.save();
+  }
+
+  return provenance;
+}
+
+/**
+ * Records a change of the verificationHash and updates the Provenance entity.
+ *
+ * @param provenance - The Provenance entity being changed.
+ * @param newVerificationHash - The verificationHash set by the call.
+ * @param call - The call that changed the verificationHash.
+ */
+export function recordProvenanceChange(
+  provenance: Provenance,
+  newVerificationHash: string,
+  call: ethereum.Call
+): void {
+  // Step 1: Increment the change count, it is used to build a unique ID for the change.
+  provenance.changeCount = provenance.changeCount.plus(BIGINT_ONE);
+
+  // Step 2: Create the ProvenanceChange entity with the old and new hashes.
+  let change = new ProvenanceChange(
+    provenance.id + "-" + provenance.changeCount.toString()
+  );
+  change.provenance = provenance.id;
+  change.oldVerificationHash = provenance.verificationHash;
+  change.newVerificationHash = newVerificationHash;
+  change.caller = call.from;
+  change.txHash = call.transaction.hash;
+  change.blockNumber = call.block.number;
+  change.blockTimestamp = call.block.timestamp;
+  change.save();
+
+  // Step 3: Update the Provenance entity with the new hash and transaction details.
+  provenance.verificationHash = newVerificationHash;
+  provenance.txHash = call.transaction.hash;
+  provenance.blockNumber = call.block.number;
+  provenance.blockTimestamp = call.block.timestamp;
+  provenance.save();
+}
+
+/**
+ * Records a change of the base URI and updates the Provenance entity.
+ *
+ * @param provenance - The Provenance entity being changed.
+ * @param newBaseURI - The base URI set by the call.
+ * @param rootChanged - True if the new base URI points to a different IPFS root.
+ * @param call - The call that changed the base URI.
+ */
+export function recordBaseURIChange(
+  provenance: Provenance,
+  newBaseURI: string,
+  rootChanged: boolean,
+  call: ethereum.Call
+): void {
+  // Step 1: Increment the change count, it is used to build a unique ID for the change.
+  provenance.baseURIChangeCount =
+    provenance.baseURIChangeCount.plus(BIGINT_ONE);
+
+  // Step 2: Create the BaseURIChange entity with the old and new base URIs.
+  let change = new BaseURIChange(
+    provenance.id + "-" + provenance.baseURIChangeCount.toString()
+  );
+  change.provenance = provenance.id;
+  change.oldBaseURI = provenance.baseURI;
+  change.newBaseURI = newBaseURI;
+  change.rootChanged = rootChanged;
+  change.caller = call.from;
+  change.txHash = call.transaction.hash;
+  change.blockNumber = call.block.number;
+  change.blockTimestamp = call.block.timestamp;
+  change.save();
+
+  // Step 3: Update the Provenance entity with the new base URI and transaction details.
+  provenance.baseURI = newBaseURI;
+  provenance.txHash = call.transaction.hash;
+  provenance.blockNumber = call.block.number;
+  provenance.blockTimestamp = call.block.timestamp;
+  provenance.save();
+}
@@ -0,0 +1,426 @@
+import { Address, BigInt, Bytes, ethereum, log } from "@graphprotocol/graph-ts";
+import {
+  Account,
+  ProcessedEvent,
+  Sale,
+  SaleBatch,
+} from "../../generated/schema";
+import { updateTransactionCounts } from "./accountHelper";
+import { recordSecondarySale } from "./collectionHelper";
+import {
+  COVEN_ADDRESS,
+  ORDERS_MATCHED_EVENT_SIG,
+  TRANSFER_EVENT_SIG,
+} from "./constant";
+
+/**
+ * Holds the decoded fields of a CryptoCoven Transfer log found in a receipt.
+ */
+export class TransferLog {
+  // The address the token is sent from, the seller of a sale.
+  from: Address;
+  // The address the token is sent to, the buyer of a sale.
+  to: Address;
+  // The tokenId, the third indexed topic of the log.
+  tokenId: BigInt;
+  // The index of the log in the block.
+  logIndex: BigInt;
+
+  constructor(from: Address, to: Address, tokenId: BigInt, logIndex: BigInt) {
+    this.from = from;
+    this.to = to;
+    this.tokenId = tokenId;
+    this.logIndex = logIndex;
+  }
+}
+
+/**
+ * Holds the decoded fields of an OrdersMatched log found in a receipt.
+ */
+export class OrderLog {
+  // The maker of the order.
+  maker: Address;
+  // The taker of the order.
+  taker: Address;
+  // The hash of the buy order.
+  buyHash: Bytes;
+  // The hash of the sell order.
+  sellHash: Bytes;
+  // The price of the order.
+  price: BigInt;
+  // The index of the log in the block.
+  logIndex: BigInt;
+
+  constructor(
+    maker: Address,
+    taker: Address,
+    buyHash: Bytes,
+    sellHash: Bytes,
+    price: BigInt,
+    logIndex: BigInt
+  ) {
+    this.maker = maker;
+    this.taker = taker;
+    this.buyHash = buyHash;
+    this.sellHash = sellHash;
+    this.price = price;
+    this.logIndex = logIndex;
+  }
+}
+
+/**
+ * Checks whether a log is a Transfer emitted by the CryptoCoven contract.
+ *
+ * @param currLog - The log to check.
+ * @returns True if the log is a CryptoCoven Transfer.
+ */
+export function isCovenTransferLog(currLog: ethereum.Log): boolean {
+  return (
+    currLog.address.equals(COVEN_ADDRESS) &&
+    currLog.topics.length == 4 &&
+    currLog.topics[0].equals(TRANSFER_EVENT_SIG)
+  );
+}
+
+/**
+ * Checks whether a log is an OrdersMatched emitted by the OpenSea exchange.
+ *
+ * @param currLog - The log to check.
+ * @returns True if the log is an OrdersMatched.
+ */
+export function isOrdersMatchedLog(currLog: ethereum.Log): boolean {
+  return (
+    currLog.topics.length > 0 &&
+    currLog.topics[0].equals(ORDERS_MATCHED_EVENT_SIG)
+  );
+}
+
+/**
+ * Decodes a CryptoCoven Transfer log.
+ * Every parameter of the Transfer event is indexed, so they are read from the topics and not from the data.
+ *
+ * @param currLog - A log for which isCovenTransferLog is true.
+ * @returns The decoded TransferLog.
+ */
+export function decodeTransferLog(currLog: ethereum.Log): TransferLog {
+  return new TransferLog(
+    ethereum.decode("address", currLog.topics[1])!.toAddress(),
+    ethereum.decode("address", currLog.topics[2])!.toAddress(),
+    ethereum.decode("uint256", currLog.topics[3])!.toBigInt(),
+    currLog.logIndex
+  );
+}
+
+/**
+ * Decodes an OrdersMatched log.
+ * The maker and the taker are indexed, the order hashes and the price are read from the data.
+ *
+ * @param currLog - A log for which isOrdersMatchedLog is true.
+ * @returns The decoded OrderLog.
+ */
+export function decodeOrdersMatchedLog(currLog: ethereum.Log): OrderLog {
+  let data = ethereum
+    .decode("(bytes32,bytes32,uint256)", currLog.data)!
+    .toTuple();
+  return new OrderLog(
+    ethereum.decode("address", currLog.topics[1])!.toAddress(),
+    ethereum.decode("address", currLog.topics[2])!.toAddress(),
+    data[0].toBytes(),
+    data[1].toBytes(),
+    data[2].toBigInt(),
+    currLog.logIndex
+  );
+}
+
+/**
+ * Checks whether a transfer moves a token between the maker and the taker of an order.
+ * Whichever side sells, the token goes from one of them to the other.
+ *
+ * @param from - The address the token is sent from.
+ * @param to - The address the token is sent to.
+ * @param orderLog - The OrdersMatched log of the order, its maker and taker are indexed.
+ * @returns True if the transfer is between the maker and the taker.
+ */
+export function isTransferBetween(
+  from: Address,
+  to: Address,
+  orderLog: ethereum.Log
+): boolean {
+  let maker = ethereum.decode("address", orderLog.topics[1])!.toAddress();
+  let taker = ethereum.decode("address", orderLog.topics[2])!.toAddress();
+  return (
+    (from.equals(maker) && to.equals(taker)) ||
+    (from.equals(taker) && to.equals(maker))
+  );
+}
+
+/**
+ * Determines which side of a sale made the matched order.
+ * The maker of OrdersMatched is the maker of the order that was matched, so when it sent the token
+ * the buyer filled a listing, and when it received the token the seller accepted an offer.
+ * The roles are always taken from the direction of the transfer, never from the maker and the taker.
+ *
+ * @param order - The decoded OrdersMatched log of the order.
+ * @param transfer - The Transfer log of the sold token.
+ * @returns The SaleSide of the sale: LISTING_FILLED or OFFER_ACCEPTED.
+ */
+export function getSaleSide(order: OrderLog, transfer: TransferLog): string {
+  return order.maker.equals(transfer.from)
+    ? "LISTING_FILLED"
+    : "OFFER_ACCEPTED";
+}
+
+/**
+ * Finds the index of a log in the logs of a receipt.
+ *
+ * @param logs - The logs of the receipt.
+ * @param logIndex - The log index of the log to find.
+ * @returns The position of the log in the receipt, or -1 if it isn't found.
+ */
+function findLogPosition(logs: Array<ethereum.Log>, logIndex: BigInt): i32 {
+  for (let i = 0; i < logs.length; i++) {
+    if (logs[i].logIndex.equals(logIndex)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Collects the CryptoCoven Transfer logs sold by the OrdersMatched log at a position of a receipt.
+ *
+ * The exchange transfers the tokens of an order right before it emits OrdersMatched, so the
+ * transfers of a sale are the CryptoCoven Transfer logs between the previous OrdersMatched of the
+ * receipt and this one. Transfers that don't move a token between the maker and the taker are ignored.
+ *
+ * @param logs - The logs of the receipt.
+ * @param position - The position of the OrdersMatched log in the receipt.
+ * @returns The transfers of the sale, empty if the order didn't sell any witch.
+ */
+function collectSaleTransfers(
+  logs: Array<ethereum.Log>,
+  position: i32
+): Array<TransferLog> {
+  let transfers = new Array<TransferLog>();
+  let orderLog = logs[position];
+
+  // Walk back to the previous OrdersMatched, collecting the transfers of the order.
+  for (let i = position - 1; i >= 0; i--) {
+    let currLog = logs[i];
+    if (isOrdersMatchedLog(currLog)) break;
+    if (!isCovenTransferLog(currLog)) continue;
+
+    let transfer = decodeTransferLog(currLog);
+    if (isTransferBetween(transfer.from, transfer.to, orderLog)) {
+      // Keep the transfers in the order they were emitted.
+      transfers.unshift(transfer);
+    }
+  }
+
+  return transfers;
+}
+
+/**
+ * Finds the CryptoCoven Transfer logs sold by an OrdersMatched log of the receipt of an event.
+ *
+ * @param event - The event whose receipt holds the OrdersMatched log, either the OrdersMatched or a Transfer.
+ * @param orderLogIndex - The log index of the OrdersMatched log.
+ * @returns The transfers of the sale, empty if the order didn't sell any witch.
+ */
+export function findSaleTransfers(
+  event: ethereum.Event,
+  orderLogIndex: BigInt
+): Array<TransferLog> {
+  // Step 1: Ensure the event's receipt exists, the logs are read from it.
+  if (!event.receipt) {
+    log.warning("[findSaleTransfers] No logs found in event receipt", []);
+    return new Array<TransferLog>();
+  }
+  const logs = event.receipt!.logs;
+
+  // Step 2: Locate the OrdersMatched log in the receipt.
+  let position = findLogPosition(logs, orderLogIndex);
+  if (position == -1) {
+    return new Array<TransferLog>();
+  }
+
+  // Step 3: Collect the transfers sold by the order.
+  return collectSaleTransfers(logs, position);
+}
+
+/**
+ * Finds the OrdersMatched log a CryptoCoven Transfer is sold by.
+ * It is the first OrdersMatched after the transfer in the receipt, when the transfer moves the
+ * token between its maker and its taker.
+ *
+ * @param event - The Transfer event.
+ * @param from - The address the token is sent from.
+ * @param to - The address the token is sent to.
+ * @returns The OrdersMatched log of the sale, or null if the transfer isn't a sale.
+ */
+export function findPairedOrdersMatched(
+  event: ethereum.Event,
+  from: Address,
+  to: Address
+): ethereum.Log | null {
+  // Step 1: Ensure the event's receipt exists, the logs are read from it.
+  if (!event.receipt) {
+    log.warning("[findPairedOrdersMatched] No logs found in event receipt", []);
+    return null;
+  }
+  const logs = event.receipt!.logs;
+
+  // Step 2: Locate the Transfer log in the receipt.
+  let position = findLogPosition(logs, event.logIndex);
+  if (position == -1) {
+    return null;
+  }
+
+  // Step 3: The first OrdersMatched after the transfer is the only one that can have sold it.
+  for (let i = position + 1; i < logs.length; i++) {
+    let currLog = logs[i];
+    if (!isOrdersMatchedLog(currLog)) continue;
+
+    return isTransferBetween(from, to, currLog) ? currLog : null;
+  }
+
+  return null;
+}
+
+/**
+ * Creates the immutable Sale entity of a token sold by an order.
+ * The seller and the buyer are the sender and the recipient of the token, whichever of them made the order.
+ * The price of an order selling several tokens is split evenly between them.
+ *
+ * @param order - The decoded OrdersMatched log of the order.
+ * @param transfer - The Transfer log of the sold token.
+ * @param bundleSize - The number of tokens sold by the order.
+ * @param event - The event being handled, used for the transaction details.
+ * @returns The saved Sale entity.
+ */
+function createSale(
+  order: OrderLog,
+  transfer: TransferLog,
+  bundleSize: i32,
+  event: ethereum.Event
+): Sale {
+  let sale = new Sale(getSaleId(event, transfer));
+  sale.token = transfer.tokenId.toHex();
+  sale.tokenId = transfer.tokenId;
+  sale.seller = transfer.from.toHex();
+  sale.buyer = transfer.to.toHex();
+  sale.maker = order.maker;
+  sale.taker = order.taker;
+  sale.orderPrice = order.price;
+  sale.price = order.price.div(BigInt.fromI32(bundleSize));
+  sale.bundleSize = bundleSize;
+  sale.buyHash = order.buyHash;
+  sale.sellHash = order.sellHash;
+  sale.saleSide = getSaleSide(order, transfer);
+  sale.logIndex = order.logIndex;
+  sale.transferLogIndex = transfer.logIndex;
+  sale.txHash = event.transaction.hash;
+  sale.blockNumber = event.block.number;
+  sale.blockTimestamp = event.block.timestamp;
+  sale.save();
+
+  return sale;
+}
+
+/**
+ * Builds the ID of the Sale and the ProcessedEvent of a sold token.
+ * A sale is keyed by its Transfer log, which both handlers that see the sale can identify.
+ *
+ * @param event - The event being handled, used for the transaction hash.
+ * @param transfer - The Transfer log of the sold token.
+ * @returns The ID of the sale.
+ */
+function getSaleId(event: ethereum.Event, transfer: TransferLog): string {
+  return event.transaction.hash.toHex() + "-" + transfer.logIndex.toString();
+}
+
+/**
+ * Loads the SaleBatch entity of the transaction of a sale from the store.
+ * If it doesn't exist, it creates it with an empty list of sales and the details of the transaction.
+ *
+ * @param event - The event being handled, used for the transaction details.
+ * @returns The loaded or newly created SaleBatch entity.
+ */
+export function loadOrCreateSaleBatch(event: ethereum.Event): SaleBatch {
+  let batch = SaleBatch.load(event.transaction.hash.toHex());
+
+  if (!batch) {
+    batch = new SaleBatch(event.transaction.hash.toHex());
+    batch.sales = [];
+    batch.linkedCount = 0;
+    batch.txHash = event.transaction.hash;
+    batch.blockNumber = event.block.number;
+    batch.blockTimestamp = event.block.timestamp;
+  }
+
+  return batch;
+}
+
+/**
+ * Adds a sale to the SaleBatch of its transaction.
+ * The atomicMatch_ call handler of the transaction then uses the batch to link the sale to its orders.
+ *
+ * @param sale - The Sale entity.
+ * @param event - The event being handled.
+ */
+function recordSaleInBatch(sale: Sale, event: ethereum.Event): void {
+  let batch = loadOrCreateSaleBatch(event);
+
+  // Arrays of entities must be copied, updated and reassigned to be saved.
+  let sales = batch.sales;
+  sales.push(sale.id);
+  batch.sales = sales;
+  batch.save();
+}
+
+/**
+ * Processes the sale of a token exactly once, whichever of handleTransfer and handleOpenSea sees it first.
+ * The Sale is created, the buyer and seller counts are updated and the price is added to the
+ * secondary volume of the collection. A ProcessedEvent marks the sale so the other handler skips it.
+ *
+ * @param order - The decoded OrdersMatched log of the order.
+ * @param transfer - The Transfer log of the sold token.
+ * @param bundleSize - The number of tokens sold by the order.
+ * @param seller - The Account that sent the token. The caller is responsible for saving it.
+ * @param buyer - The Account that received the token. The caller is responsible for saving it.
+ * @param event - The event being handled.
+ * @param handler - The name of the handler processing the sale.
+ * @returns The Sale entity if it was processed now, or null if it had already been processed.
+ */
+export function processSale(
+  order: OrderLog,
+  transfer: TransferLog,
+  bundleSize: i32,
+  seller: Account,
+  buyer: Account,
+  event: ethereum.Event,
+  handler: string
+): Sale | null {
+  // Step 1: Skip the sale if the other handler has already processed it.
+  let id = getSaleId(event, transfer);
+  if (ProcessedEvent.load(id)) {
+    return null;
+  }
+
+  // Step 2: Record the sale and count it once for the seller and the buyer.
+  let sale = createSale(order, transfer, bundleSize, event);
+  updateTransactionCounts(seller, "TRADE", false);
+  updateTransactionCounts(buyer, "TRADE", true);
+  recordSecondarySale(COVEN_ADDRESS, sale.price);
+  recordSaleInBatch(sale, event);
+
+  // Step 3: Mark the sale as processed.
+  let marker = new ProcessedEvent(id);
+  marker.processedBy = handler;
+  marker.txHash = event.transaction.hash;
+  marker.logIndex = transfer.logIndex;
+  marker.blockNumber = event.block.number;
+  marker.save();
+
+  return sale;
+}
@@ -0,0 +1,152 @@
+import { Address, ethereum } from "@graphprotocol/graph-ts";
+import { ProxyRegistry } from "../../generated/CryptoCoven/ProxyRegistry";
+import {
+  CovenToken,
+  OperatorApproval,
+  SecurityAlert,
+} from "../../generated/schema";
+import {
+  KNOWN_MARKETPLACE_OPERATORS,
+  SUSPICIOUS_TRANSFER_WINDOW,
+  WYVERN_PROXY_REGISTRY_ADDRESS,
+} from "./constant";
+
+/**
+ * Checks whether an operator is one of the known marketplace proxies.
+ *
+ * @param operator - The address of the operator.
+ * @returns True if the operator is listed in KNOWN_MARKETPLACE_OPERATORS.
+ */
+export function isKnownMarketplaceOperator(operator: Address): boolean {
+  for (let i = 0; i < KNOWN_MARKETPLACE_OPERATORS.length; i++) {
+    if (operator.equals(KNOWN_MARKETPLACE_OPERATORS[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks whether an operator is the Wyvern proxy OpenSea deployed for the owner.
+ * These proxies are deployed per user, so they can't be listed in KNOWN_MARKETPLACE_OPERATORS.
+ *
+ * @param owner - The address of the owner granting the approval.
+ * @param operator - The address of the operator.
+ * @returns True if the operator is the proxy registered for the owner in the Wyvern proxy registry.
+ */
+export function isWyvernProxyOf(owner: Address, operator: Address): boolean {
+  // try_ is used so a reverted call doesn't fail the whole subgraph.
+  let registry = ProxyRegistry.bind(WYVERN_PROXY_REGISTRY_ADDRESS);
+  let proxyResult = registry.try_proxies(owner);
+  if (proxyResult.reverted) {
+    return false;
+  }
+  return proxyResult.value.equals(operator);
+}
+
+/**
+ * Builds the ID of the SecurityAlert of the current grant of an approval.
+ * The change count identifies the grant, as it only changes when the approval is granted or revoked again.
+ *
+ * @param approval - The OperatorApproval entity of the grant.
+ * @returns The ID of the SecurityAlert.
+ */
+function getSecurityAlertId(approval: OperatorApproval): string {
+  return approval.id + "-" + approval.changeCount.toString();
+}
+
+/**
+ * Creates the SecurityAlert of the current grant of an approval, with no reason flagged yet.
+ *
+ * @param approval - The OperatorApproval entity of the grant.
+ * @returns The newly created SecurityAlert entity.
+ */
+function createSecurityAlert(approval: OperatorApproval): SecurityAlert {
+  let alert = new SecurityAlert(getSecurityAlertId(approval));
+  alert.account = approval.owner;
+  alert.operator = approval.operator;
+  alert.operatorApproval = approval.id;
+  alert.unknownOperator = false;
+  alert.operatorTransferred = false;
+  alert.tokens = [];
+  alert.approvedTxHash = approval.txHash;
+  alert.approvedAtBlock = approval.blockNumber;
+  alert.approvedAtTimestamp = approval.blockTimestamp;
+  return alert;
+}
+
+/**
+ * Flags an ApprovalForAll grant to an operator that isn't a known marketplace proxy
+ * or the Wyvern proxy of the owner.
+ *
+ * @param approval - The OperatorApproval entity, updated with the ApprovalForAll event.
+ * @param owner - The address of the owner granting the approval.
+ * @param operator - The address of the operator.
+ */
+export function flagOperatorApproval(
+  approval: OperatorApproval,
+  owner: Address,
+  operator: Address
+): void {
+  // Revocations and grants to known marketplaces are safe.
+  if (
+    !approval.approved ||
+    isKnownMarketplaceOperator(operator) ||
+    isWyvernProxyOf(owner, operator)
+  ) {
+    return;
+  }
+
+  let alert = createSecurityAlert(approval);
+  alert.unknownOperator = true;
+  alert.save();
+}
+
+/**
+ * Flags a transfer sent by an operator of the owner shortly after the operator was approved.
+ * Phishing sites usually drain the tokens of a wallet right after tricking it into an approval.
+ *
+ * @param token - The CovenToken being transferred.
+ * @param from - The address of the owner of the token.
+ * @param event - The Transfer event.
+ */
+export function flagOperatorTransfer(
+  token: CovenToken,
+  from: Address,
+  event: ethereum.Event
+): void {
+  // Step 1: Only transfers sent by another address than the owner can come from an operator.
+  let sender = event.transaction.from;
+  if (sender.equals(from)) {
+    return;
+  }
+
+  // Step 2: Check that the sender is an operator currently approved by the owner.
+  let approval = OperatorApproval.load(from.toHex() + "-" + sender.toHex());
+  if (!approval || !approval.approved) {
+    return;
+  }
+
+  // Step 3: Only transfers within the suspicious window after the grant are flagged.
+  let blocksSinceApproval = event.block.number.minus(approval.blockNumber);
+  if (blocksSinceApproval.gt(SUSPICIOUS_TRANSFER_WINDOW)) {
+    return;
+  }
+
+  // Step 4: Add the token to the alert of the grant, creating it on the first transfer.
+  let alert = SecurityAlert.load(getSecurityAlertId(approval));
+  if (!alert) {
+    alert = createSecurityAlert(approval);
+  }
+
+  if (!alert.operatorTransferred) {
+    alert.operatorTransferred = true;
+    alert.blocksToFirstTransfer = blocksSinceApproval;
+  }
+
+  // Arrays of entities must be copied, updated and reassigned to be saved.
+  let tokens = alert.tokens;
+  tokens.push(token.id);
+  alert.tokens = tokens;
+  alert.save();
+}
@@ -0,0 +1,175 @@
+import { Address, ethereum } from "@graphprotocol/graph-ts";
+import {
+  CovenToken,
+  MetadataResult,
+  MetadataStats,
+  MetadataStatus,
+} from "../../generated/schema";
+import {
+  BIGINT_ONE,
+  BIGINT_ZERO,
+  METADATA_ERROR_NONE,
+  METADATA_REQUEST_FAILED,
+  METADATA_REQUEST_PENDING,
+} from "./constant";
+import { NormalizedURI } from "./uriHelper";
+
+/**
+ * Loads the MetadataStats entity of the CryptoCoven contract from the store.
+ * If it doesn't exist, it creates it with all counters set to zero.
+ *
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @returns The loaded or newly created MetadataStats entity.
+ */
+export function loadOrCreateMetadataStats(
+  contractAddress: Address
+): MetadataStats {
+  let stats = MetadataStats.load(contractAddress.toHex());
+
+  if (!stats) {
+    stats = new MetadataStats(contractAddress.toHex());
+    stats.requestedCount = BIGINT_ZERO;
+    stats.refreshCount = BIGINT_ZERO;
+    stats.failedRequestCount = BIGINT_ZERO;
+    stats.save();
+  }
+
+  return stats;
+}
+
+/**
+ * Loads the MetadataStatus entity of a token and counts a new request for it on the collection counters.
+ * The status is created on the first request and every request after it is counted as a refresh.
+ *
+ * @param token - The CovenToken entity the metadata is requested for.
+ * @param stats - The MetadataStats entity of the contract. The caller is responsible for saving it.
+ * @param block - The block in which the request is made.
+ * @returns The MetadataStatus entity, with the details of the new request. The caller is responsible for saving it.
+ */
+function loadStatusForRequest(
+  token: CovenToken,
+  stats: MetadataStats,
+  block: ethereum.Block
+): MetadataStatus {
+  let status = MetadataStatus.load(token.id);
+
+  // Create the status on the first request, otherwise count the request as a refresh.
+  if (!status) {
+    status = new MetadataStatus(token.id);
+    status.token = token.id;
+    status.requestedVersion = 0;
+    stats.requestedCount = stats.requestedCount.plus(BIGINT_ONE);
+  } else {
+    stats.refreshCount = stats.refreshCount.plus(BIGINT_ONE);
+  }
+
+  status.requestedVersion = status.requestedVersion + 1;
+  status.requestedAt = block.number;
+  status.requestedTimestamp = block.timestamp;
+
+  return status;
+}
+
+/**
+ * Records a metadata request for a token on its MetadataStatus entity and on the collection counters.
+ * The status is created on the first request and updated on every request after it.
+ *
+ * @param token - The CovenToken entity the metadata is requested for. The caller is responsible for saving it.
+ * @param normalizedURI - The normalized URI of the requested metadata file.
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param block - The block in which the request is made.
+ * @returns The version of the request, passed to the file data source.
+ */
+export function recordMetadataRequest(
+  token: CovenToken,
+  normalizedURI: NormalizedURI,
+  contractAddress: Address,
+  block: ethereum.Block
+): i32 {
+  // Step 1: Load the status of the token and count the request.
+  let stats = loadOrCreateMetadataStats(contractAddress);
+  let status = loadStatusForRequest(token, stats, block);
+
+  // Step 2: Update the status with the details of the new request.
+  // latestResult points to the MetadataResult the file data source will create for this source,
+  // it resolves to null in queries until the file is fetched.
+  let source = normalizedURI.source;
+  status.source = source;
+  status.cid = normalizedURI.cid;
+  status.requestState = METADATA_REQUEST_PENDING;
+  status.requestError = METADATA_ERROR_NONE;
+  status.latestResult = source;
+  status.save();
+  stats.save();
+
+  // Step 3: Link the token to its status.
+  token.metadataStatus = status.id;
+
+  return status.requestedVersion;
+}
+
+/**
+ * Records a metadata request for a token that failed before a file data source could be spawned,
+ * so the token and the reason are visible on its MetadataStatus.
+ *
+ * @param token - The CovenToken entity the metadata is requested for. The caller is responsible for saving it.
+ * @param tokenURI - The tokenURI of the token, empty if the tokenURI call reverted.
+ * @param error - The reason the request failed: TOKEN_URI_REVERTED or UNSUPPORTED_URI.
+ * @param contractAddress - The address of the CryptoCoven contract.
+ * @param block - The block in which the request is made.
+ */
+export function recordMetadataRequestFailure(
+  token: CovenToken,
+  tokenURI: string,
+  error: string,
+  contractAddress: Address,
+  block: ethereum.Block
+): void {
+  // Step 1: Load the status of the token and count the request and its failure.
+  let stats = loadOrCreateMetadataStats(contractAddress);
+  let status = loadStatusForRequest(token, stats, block);
+  stats.failedRequestCount = stats.failedRequestCount.plus(BIGINT_ONE);
+
+  // Step 2: Update the status with the reason of the failure, no file will be fetched for it.
+  status.source = tokenURI;
+  status.cid = "";
+  status.requestState = METADATA_REQUEST_FAILED;
+  status.requestError = error;
+  status.latestResult = null;
+  status.save();
+  stats.save();
+
+  // Step 3: Link the token to its status.
+  token.metadataStatus = status.id;
+}
+
+/**
+ * Records the outcome of indexing a metadata file.
+ * This function is called from the metadata file data sources, which can't update the
+ * MetadataStatus of the token, so the outcome is stored in its own immutable entity.
+ *
+ * @param source - The source of the metadata file, used as the ID of the result.
+ * @param tokenId - The ID of the CovenToken the file was requested for.
+ * @param version - The version of the request, passed through the data source context.
+ * @param cid - The canonical CID or transaction ID of the file.
+ * @param error - The reason the file could not be fully indexed, NONE if it was.
+ * @param metadataId - The ID of the indexed NFTMetadata, or null if the file could not be parsed.
+ */
+export function recordMetadataResult(
+  source: string,
+  tokenId: string,
+  version: i32,
+  cid: string,
+  error: string,
+  metadataId: string | null
+): void {
+  let result = new MetadataResult(source);
+  result.status = tokenId;
+  result.token = tokenId;
+  result.resolved = metadataId != null;
+  result.resolvedVersion = version;
+  result.cid = cid;
+  result.lastError = error;
+  result.metadata = metadataId;
+  result.save();
+}
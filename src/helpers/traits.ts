@@ -1,6 +1,11 @@
-/**import { Bytes, BigInt } from "@graphprotocol/graph-ts";
 import {
-  NFT,
+  BigInt,
+  Bytes,
+  JSONValue,
+  JSONValueKind,
+  TypedMap,
+} from "@graphprotocol/graph-ts";
+import {
   NFTMetadata,
   Coven,
   Description,
@@ -9,109 +14,262 @@ import {
   Attribute,
   Style,
 } from "../../generated/schema";
+import {
+  getArrayField,
+  getIntField,
+  getObjectField,
+  getStringField,
+  jsonValueToString,
+} from "./jsonHelper";
+import { STORAGE_PROTOCOL_IPFS } from "./constant";
 
-// Initialize NFT entity
-// Creates a new NFT entity with default values
-export function initializeNFT(id: string, ownerId: string): NFT {
-  let nft = new NFT(id);
-  nft.currentOwner = ownerId; // Current owner of the NFT
-  nft.tokenID = BigInt.fromI32(0); // NFT token ID
-  nft.tokenURI = ""; // URI pointing to NFT metadata
-  nft.ipfsURI = ""; // URI pointing to IPFS metadata (NFTMetadata reference)
-  nft.saleCount = BigInt.fromI32(0); // Number of times the NFT has been sold
-  nft.buyCount = BigInt.fromI32(0); // Number of times the NFT has been bought
-  nft.mintCount = BigInt.fromI32(0); // Number of times the NFT has been minted
-  nft.blockNumber = BigInt.fromI32(0); // Block number where the NFT is recorded
-  nft.blockTimestamp = BigInt.fromI32(0); // Timestamp when the NFT is recorded
-  nft.save(); // Save the entity to the store
-  return nft;
-}
+// The entities below are created by the NFTMetadata file data source and are immutable,
+// so the initializers don't save them. The caller saves each entity once all fields are parsed.
 
 // Initialize NFTMetadata entity
 // Creates a new NFTMetadata entity with default values
-export function initializeNFTMetadata(id: string): NFTMetadata {
+export function initializeNFTMetadata(
+  id: string,
+  tokenId: string
+): NFTMetadata {
   let nftMetadata = new NFTMetadata(id);
+  nftMetadata.token = tokenId; // Reference to the CovenToken entity
+  nftMetadata.storageProtocol = STORAGE_PROTOCOL_IPFS; // Storage the metadata was fetched from
+  nftMetadata.cid = ""; // CID or transaction ID at the root of the tokenURI
+  nftMetadata.path = ""; // Path of the file inside the root
   nftMetadata.description = ""; // Description of the NFT
   nftMetadata.externalURL = ""; // External URL for additional information
   nftMetadata.image = ""; // URL for the image of the NFT
   nftMetadata.name = ""; // Name of the NFT
   nftMetadata.backgroundColor = ""; // Background color for visual representation
-  nftMetadata.save(); // Save the entity to the store
+  nftMetadata.contentHash = Bytes.empty(); // Hash of the raw metadata file
+  nftMetadata.imageOriginalURL = ""; // URL for the original image of the NFT
+  nftMetadata.animationURL = ""; // URL for the animation of the NFT
   return nftMetadata;
 }
 
 // Initialize Coven entity
 // Creates a new Coven entity with default values
-export function initializeCoven(id: string): Coven {
+export function initializeCoven(id: string, tokenId: string): Coven {
   let coven = new Coven(id);
+  coven.token = tokenId; // Reference to the CovenToken entity
+  coven.metadata = id; // Reference to the NFTMetadata entity
   coven.name = ""; // Name of the Coven
   coven.type = ""; // Type of the Coven
-  coven.description = ""; // Description (referencing Description entity)
-  coven.skills = ""; // Skills (referencing Skills entity)
-  coven.birthChart = ""; // Birth chart (referencing BirthChart entity)
+  coven.description = id; // Description (referencing Description entity)
+  coven.skills = id; // Skills (referencing Skills entity)
+  coven.birthChart = id; // Birth chart (referencing BirthChart entity)
   coven.hash = ""; // Hash associated with the Coven
-  coven.save(); // Save the entity to the store
   return coven;
 }
 
 // Initialize Description entity
 // Creates a new Description entity with default values
-export function initializeDescription(id: string): Description {
+export function initializeDescription(
+  id: string,
+  tokenId: string
+): Description {
   let description = new Description(id);
+  description.token = tokenId; // Reference to the CovenToken entity
   description.intro = ""; // Introduction text
   description.hobby = ""; // Hobbies related to the description
   description.magic = ""; // Magic-related content
   description.typeSpecific = ""; // Type-specific details
   description.exclamation = ""; // Exclamation or notable highlight
-  description.save(); // Save the entity to the store
   return description;
 }
 
 // Initialize Skills entity
 // Creates a new Skills entity with default values
-export function initializeSkills(id: string): Skills {
+export function initializeSkills(id: string, tokenId: string): Skills {
   let skills = new Skills(id);
+  skills.token = tokenId; // Reference to the CovenToken entity
   skills.will = 0; // Willpower skill value
   skills.wit = 0; // Wit skill value
   skills.wiles = 0; // Wiles skill value
   skills.wisdom = 0; // Wisdom skill value
   skills.wonder = 0; // Wonder skill value
   skills.woe = 0; // Woe skill value
-  skills.save(); // Save the entity to the store
+  skills.total = 0; // Sum of all skill values
   return skills;
 }
 
 // Initialize BirthChart entity
 // Creates a new BirthChart entity with default values
-export function initializeBirthChart(id: string): BirthChart {
+export function initializeBirthChart(id: string, tokenId: string): BirthChart {
   let birthChart = new BirthChart(id);
+  birthChart.token = tokenId; // Reference to the CovenToken entity
   birthChart.sun = ""; // Sun sign in the birth chart
   birthChart.moon = ""; // Moon sign in the birth chart
   birthChart.rising = ""; // Rising sign in the birth chart
-  birthChart.save(); // Save the entity to the store
+  birthChart.combination = ""; // Sun, moon and rising signs combined
   return birthChart;
 }
 
 // Initialize Attribute entity
 // Creates a new Attribute entity with default values
-export function initializeAttribute(id: string): Attribute {
+export function initializeAttribute(
+  id: string,
+  tokenId: string,
+  metadataId: string
+): Attribute {
   let attribute = new Attribute(id);
+  attribute.token = tokenId; // Reference to the CovenToken entity
+  attribute.metadata = metadataId; // Reference to the NFTMetadata entity
   attribute.traitType = ""; // Type of attribute
   attribute.value = ""; // Value of the attribute
   attribute.displayType = ""; // Display type for the attribute
   attribute.maxValue = BigInt.fromI32(0); // Maximum value for the attribute
-  attribute.save(); // Save the entity to the store
   return attribute;
 }
 
 // Initialize Style entity
 // Creates a new Style entity with default values
-export function initializeStyle(id: string): Style {
+export function initializeStyle(
+  id: string,
+  tokenId: string,
+  covenId: string
+): Style {
   let style = new Style(id);
-  style.attribute = ""; // Reference to Attribute entity
+  style.token = tokenId; // Reference to the CovenToken entity
+  style.attribute = ""; // Attribute the style applies to
   style.name = ""; // Name of the style
   style.color = ""; // Color associated with the style
-  style.coven = ""; // Reference to Coven entity
-  style.save(); // Save the entity to the store
+  style.coven = covenId; // Reference to Coven entity
   return style;
-}**/
+}
+
+/**
+ * Calculates the composite skill total of a witch, the sum of its six skill scores.
+ *
+ * @param skills - The Skills entity of the witch.
+ * @returns The sum of will, wit, wiles, wisdom, wonder and woe.
+ */
+export function calculateSkillTotal(skills: Skills): i32 {
+  return (
+    skills.will +
+    skills.wit +
+    skills.wiles +
+    skills.wisdom +
+    skills.wonder +
+    skills.woe
+  );
+}
+
+/**
+ * Creates the Coven entity and its Description, Skills, BirthChart and Style entities
+ * from the `coven` section of the metadata JSON.
+ *
+ * @param id - The source of the metadata JSON, shared by the Coven and its sections.
+ * @param tokenId - The ID of the CovenToken the metadata describes.
+ * @param covenObject - The `coven` object of the metadata JSON.
+ * @returns The saved Coven entity.
+ */
+export function createCoven(
+  id: string,
+  tokenId: string,
+  covenObject: TypedMap<string, JSONValue>
+): Coven {
+  // Step 1: Create the Description entity from the `description` object.
+  let description = initializeDescription(id, tokenId);
+  let descriptionObject = getObjectField(covenObject, "description");
+  if (descriptionObject) {
+    description.intro = getStringField(descriptionObject, "intro");
+    description.hobby = getStringField(descriptionObject, "hobby");
+    description.magic = getStringField(descriptionObject, "magic");
+    description.typeSpecific = getStringField(
+      descriptionObject,
+      "typeSpecific"
+    );
+    description.exclamation = getStringField(descriptionObject, "exclamation");
+  }
+  description.save();
+
+  // Step 2: Create the Skills entity from the `skills` object.
+  let skills = initializeSkills(id, tokenId);
+  let skillsObject = getObjectField(covenObject, "skills");
+  if (skillsObject) {
+    skills.will = getIntField(skillsObject, "will");
+    skills.wit = getIntField(skillsObject, "wit");
+    skills.wiles = getIntField(skillsObject, "wiles");
+    skills.wisdom = getIntField(skillsObject, "wisdom");
+    skills.wonder = getIntField(skillsObject, "wonder");
+    skills.woe = getIntField(skillsObject, "woe");
+  }
+  skills.total = calculateSkillTotal(skills);
+  skills.save();
+
+  // Step 3: Create the BirthChart entity from the `birthChart` object.
+  let birthChart = initializeBirthChart(id, tokenId);
+  let birthChartObject = getObjectField(covenObject, "birthChart");
+  if (birthChartObject) {
+    birthChart.sun = getStringField(birthChartObject, "sun");
+    birthChart.moon = getStringField(birthChartObject, "moon");
+    birthChart.rising = getStringField(birthChartObject, "rising");
+  }
+  birthChart.combination = (
+    birthChart.sun +
+    "/" +
+    birthChart.moon +
+    "/" +
+    birthChart.rising
+  ).toLowerCase();
+  birthChart.save();
+
+  // Step 4: Create the Coven entity that links the sections together.
+  let coven = initializeCoven(id, tokenId);
+  coven.name = getStringField(covenObject, "name");
+  coven.type = getStringField(covenObject, "type");
+  coven.hash = getStringField(covenObject, "hash");
+  coven.save();
+
+  // Step 5: Create a Style entity for each entry of the `styles` array.
+  let styles = getArrayField(covenObject, "styles");
+  for (let i = 0; i < styles.length; i++) {
+    // Skip entries that aren't objects.
+    if (styles[i].kind != JSONValueKind.OBJECT) continue;
+
+    let styleObject = styles[i].toObject();
+    let style = initializeStyle(id + "-" + i.toString(), tokenId, id);
+    style.attribute = getStringField(styleObject, "attribute");
+    style.name = getStringField(styleObject, "name");
+    style.color = getStringField(styleObject, "color");
+    style.save();
+  }
+
+  return coven;
+}
+
+/**
+ * Creates an Attribute entity for each entry of the `attributes` array of the metadata JSON.
+ *
+ * @param id - The source of the metadata JSON.
+ * @param tokenId - The ID of the CovenToken the metadata describes.
+ * @param attributes - The `attributes` array of the metadata JSON.
+ */
+export function createAttributes(
+  id: string,
+  tokenId: string,
+  attributes: Array<JSONValue>
+): void {
+  for (let i = 0; i < attributes.length; i++) {
+    // Skip entries that aren't objects.
+    if (attributes[i].kind != JSONValueKind.OBJECT) continue;
+
+    let attributeObject = attributes[i].toObject();
+    let attribute = initializeAttribute(id + "-" + i.toString(), tokenId, id);
+    attribute.traitType = getStringField(attributeObject, "trait_type");
+    attribute.displayType = getStringField(attributeObject, "display_type");
+
+    // The value can be a string or a number depending on the display type.
+    let value = attributeObject.get("value");
+    if (value) {
+      attribute.value = jsonValueToString(value);
+    }
+
+    attribute.maxValue = BigInt.fromI32(
+      getIntField(attributeObject, "max_value")
+    );
+    attribute.save();
+  }
+}
@@ -1,6 +1,10 @@
 import { ethereum, Bytes, log } from "@graphprotocol/graph-ts";
 import { Account, Transaction } from "../../generated/schema";
-import { ORDERS_MATCHED_EVENT_SIG } from "./constant";
+import {
+  BIGDECIMAL_ZERO,
+  BIGINT_ZERO,
+  ORDERS_MATCHED_EVENT_SIG,
+} from "./constant";
 
 // Enum to define the possible types of transactions
 enum TransactionType {
@@ -25,6 +29,45 @@ export function getAccountById(id: string): Account | null {
   return account;
 }
 
+/**
+ * Loads the Transaction entity of a sale event from the store.
+ * If it doesn't exist, it creates it as a TRADE with zeroed sale statistics and the details of the event.
+ * The caller sets the token, the parties and the statistics of the sale, and saves it.
+ *
+ * @param event - The OrdersMatched event of the sale.
+ * @returns The loaded or newly created Transaction entity.
+ */
+export function createOrUpdateTransaction(event: ethereum.Event): Transaction {
+  // The ID combines the transaction hash and the log index, so every event gets its own Transaction.
+  let id = event.transaction.hash.toHex() + "-" + event.logIndex.toString();
+  let transaction = Transaction.load(id);
+
+  if (!transaction) {
+    transaction = new Transaction(id);
+    transaction.account = event.transaction.from.toHex();
+    transaction.referenceId = "";
+    transaction.transactionType = "TRADE";
+    transaction.buyer = Bytes.empty();
+    transaction.seller = Bytes.empty();
+
+    // Initialize the sale statistics to zero, they are set once the sold tokens are known.
+    transaction.nftSalePrice = BIGINT_ZERO;
+    transaction.totalNFTsSold = BIGINT_ZERO;
+    transaction.totalSalesVolume = BIGINT_ZERO;
+    transaction.averageSalePrice = BIGDECIMAL_ZERO;
+    transaction.totalSalesCount = BIGINT_ZERO;
+    transaction.highestSalePrice = BIGINT_ZERO;
+    transaction.lowestSalePrice = BIGINT_ZERO;
+
+    transaction.logIndex = event.logIndex;
+    transaction.txHash = event.transaction.hash;
+    transaction.blockNumber = event.block.number;
+    transaction.blockTimestamp = event.block.timestamp;
+  }
+
+  return transaction;
+}
+
 /**
  * Processes the transaction receipt associated with the given event to determine if
  * an `OrdersMatched` event occurs after the current event within the same transaction.
@@ -32,7 +75,7 @@ export function getAccountById(id: string): Account | null {
  * @param event - The Ethereum event to be processed.
  * @returns A boolean indicating whether an `OrdersMatched` event is found after the current event.
  */
-export function processTransactionReceipt(): boolean {
+export function processTransactionReceipt(event: ethereum.Event): boolean {
   // Define the keccak256 hash of the `OrdersMatched` event signature.
 
   // Check if the event has an associated transaction receipt.
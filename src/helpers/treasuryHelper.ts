@@ -0,0 +1,84 @@
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts";
+import { Collection, TreasuryWithdrawal } from "../../generated/schema";
+import { loadOrCreateAccount } from "./accountHelper";
+import { loadOrCreateCollection } from "./collectionHelper";
+import { BIGINT_ONE, BIGINT_ZERO } from "./constant";
+
+/**
+ * Returns the price of a token in a mint phase according to the contract.
+ *
+ * @param collection - The Collection entity holding the mint prices.
+ * @param mintPhase - The phase the token was minted in.
+ * @returns The price of the phase, zero for the phases where tokens are free.
+ */
+export function getExpectedMintPrice(
+  collection: Collection,
+  mintPhase: string
+): BigInt {
+  if (mintPhase == "PUBLIC") return collection.publicSalePrice;
+  if (mintPhase == "COMMUNITY") return collection.communitySalePrice;
+  return BIGINT_ZERO;
+}
+
+/**
+ * Records the ETH paid for tokens minted by a mint call on the primary revenue
+ * of the collection and on the primary spending of the caller.
+ *
+ * @param call - The mint call.
+ * @param revenue - The ETH paid for the tokens minted by the call.
+ */
+export function recordPrimarySale(call: ethereum.Call, revenue: BigInt): void {
+  // Nothing to record for free mints.
+  if (revenue.isZero()) {
+    return;
+  }
+
+  let collection = loadOrCreateCollection(call.to);
+  collection.primaryRevenue = collection.primaryRevenue.plus(revenue);
+  collection.save();
+
+  let minter = loadOrCreateAccount(call.from);
+  minter.primarySpend = minter.primarySpend.plus(revenue);
+  minter.save();
+}
+
+/**
+ * Records a withdraw or withdrawTokens call in the treasury ledger of the collection.
+ *
+ * @param call - The withdraw call.
+ * @param asset - The ERC20 token withdrawn, or null for an ETH withdrawal.
+ */
+export function recordWithdrawal(
+  call: ethereum.Call,
+  asset: Address | null
+): void {
+  let collection = loadOrCreateCollection(call.to);
+
+  // Step 1: Increment the withdrawal count, it is used to build a unique ID for the withdrawal.
+  collection.withdrawalCount = collection.withdrawalCount.plus(BIGINT_ONE);
+
+  // Step 2: Create the TreasuryWithdrawal entity.
+  // An ETH withdrawal empties the contract, so it covers all the primary revenue not withdrawn yet.
+  let withdrawal = new TreasuryWithdrawal(
+    collection.id + "-" + collection.withdrawalCount.toString()
+  );
+  withdrawal.collection = collection.id;
+  withdrawal.asset = asset;
+  withdrawal.caller = call.from;
+  withdrawal.primaryRevenueWithdrawn = BIGINT_ZERO;
+  if (!asset) {
+    withdrawal.primaryRevenueWithdrawn = collection.primaryRevenue.minus(
+      collection.primaryRevenueWithdrawn
+    );
+  }
+  withdrawal.txHash = call.transaction.hash;
+  withdrawal.blockNumber = call.block.number;
+  withdrawal.blockTimestamp = call.block.timestamp;
+  withdrawal.save();
+
+  // Step 3: Update the withdrawn revenue of the collection.
+  collection.primaryRevenueWithdrawn = collection.primaryRevenueWithdrawn.plus(
+    withdrawal.primaryRevenueWithdrawn
+  );
+  collection.save();
+}
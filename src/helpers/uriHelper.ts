@@ -0,0 +1,114 @@
+import {
+  ARWEAVE_PREFIX,
+  IPFS_GATEWAY_SEGMENT,
+  IPFS_PREFIX,
+  STORAGE_PROTOCOL_ARWEAVE,
+  STORAGE_PROTOCOL_IPFS,
+} from "./constant";
+
+/**
+ * Holds the canonical form of a URI pointing to decentralized storage.
+ * The same file is described the same way whether it was referenced with ipfs:// or through a gateway.
+ */
+export class NormalizedURI {
+  // The storage the file lives on, IPFS or ARWEAVE.
+  storageProtocol: string;
+  // The CID (IPFS) or transaction ID (Arweave) at the root of the URI.
+  cid: string;
+  // The path of the file inside the root, empty if the URI points to the root itself.
+  path: string;
+
+  constructor(storageProtocol: string, cid: string, path: string) {
+    this.storageProtocol = storageProtocol;
+    this.cid = cid;
+    this.path = path;
+  }
+
+  /**
+   * Returns the source passed to the file data source, e.g. `QmHash/1.json`.
+   */
+  get source(): string {
+    return this.path.length > 0 ? this.cid + "/" + this.path : this.cid;
+  }
+
+  /**
+   * Returns the gateway-neutral URI of the file, e.g. `ipfs://QmHash/1.json`.
+   */
+  get canonical(): string {
+    let prefix =
+      this.storageProtocol == STORAGE_PROTOCOL_ARWEAVE
+        ? ARWEAVE_PREFIX
+        : IPFS_PREFIX;
+    return prefix + this.source;
+  }
+}
+
+/**
+ * Splits a `root/path` string into a NormalizedURI.
+ *
+ * @param storageProtocol - The storage the file lives on.
+ * @param rootAndPath - The root identifier optionally followed by the path of the file.
+ * @returns The NormalizedURI, or null if the root is empty.
+ */
+function splitRootAndPath(
+  storageProtocol: string,
+  rootAndPath: string
+): NormalizedURI | null {
+  let separatorIndex = rootAndPath.indexOf("/");
+  let cid =
+    separatorIndex == -1
+      ? rootAndPath
+      : rootAndPath.substring(0, separatorIndex);
+  let path =
+    separatorIndex == -1 ? "" : rootAndPath.substring(separatorIndex + 1);
+
+  // A URI without a root can't be resolved.
+  if (cid.length == 0) {
+    return null;
+  }
+
+  return new NormalizedURI(storageProtocol, cid, path);
+}
+
+/**
+ * Normalizes a token URI or base URI pointing to decentralized storage.
+ *
+ * Supported formats are:
+ * - `ipfs://CID/path` (and the legacy `ipfs://ipfs/CID/path`)
+ * - `https://<gateway>/ipfs/CID/path`
+ * - `ar://TXID/path`
+ *
+ * @param uri - The URI to normalize.
+ * @returns The NormalizedURI, or null if the URI doesn't point to IPFS or Arweave.
+ */
+export function normalizeURI(uri: string): NormalizedURI | null {
+  // Case 1: ipfs:// scheme, with or without the legacy ipfs/ prefix.
+  if (uri.startsWith(IPFS_PREFIX)) {
+    let rootAndPath = uri.substring(IPFS_PREFIX.length);
+    if (rootAndPath.startsWith("ipfs/")) {
+      rootAndPath = rootAndPath.substring("ipfs/".length);
+    }
+    return splitRootAndPath(STORAGE_PROTOCOL_IPFS, rootAndPath);
+  }
+
+  // Case 2: ar:// scheme.
+  if (uri.startsWith(ARWEAVE_PREFIX)) {
+    return splitRootAndPath(
+      STORAGE_PROTOCOL_ARWEAVE,
+      uri.substring(ARWEAVE_PREFIX.length)
+    );
+  }
+
+  // Case 3: HTTP gateway, the CID follows the /ipfs/ segment whatever the host is.
+  if (uri.startsWith("https://") || uri.startsWith("http://")) {
+    let segmentIndex = uri.indexOf(IPFS_GATEWAY_SEGMENT);
+    if (segmentIndex != -1) {
+      return splitRootAndPath(
+        STORAGE_PROTOCOL_IPFS,
+        uri.substring(segmentIndex + IPFS_GATEWAY_SEGMENT.length)
+      );
+    }
+  }
+
+  return null;
+}
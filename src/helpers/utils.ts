@@ -7,12 +7,31 @@ import {
 } from "@graphprotocol/graph-ts";
 import { Account, CovenToken, Transaction } from "../../generated/schema";
 import {
+  BIGDECIMAL_ZERO,
   BIGINT_ZERO,
   TRANSFER_EVENT_SIG,
   ORDERS_MATCHED_EVENT_SIG,
   BIGINT_ONE,
+  ZERO_ADDRESS,
+  BURN_ADDRESSES,
 } from "./constant";
 
+/**
+ * Checks whether an address is one of the burn addresses.
+ * Tokens sent to a burn address are out of circulation.
+ *
+ * @param address - The address the token is sent to.
+ * @returns True if the address is listed in BURN_ADDRESSES.
+ */
+export function isBurnAddress(address: Bytes): boolean {
+  for (let i = 0; i < BURN_ADDRESSES.length; i++) {
+    if (address.equals(BURN_ADDRESSES[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
 /**
  * Function to retrieve an Account entity by ID.
  *
@@ -29,68 +48,6 @@ export function getAccountById(id: string): Account | null {
   return account;
 }
 
-/**
- * Function to calculate and aggregate transaction data.
- *
- * This function calculates aggregated metrics like total sales volume, average sale price,
- * total sales count, highest sale price, and lowest sale price based on the provided transactions.
- *
- * @param transactions - An array of Transaction entities from which to calculate data.
- * @returns - An object containing aggregated transaction data.
- */
-export function calculateAggregatedData(transactions: Transaction[]): {
-  totalSalesVolume: BigInt;
-  averageSalePrice: BigDecimal;
-  totalSalesCount: BigInt;
-  highestSalePrice: BigInt;
-  lowestSalePrice: BigInt;
-} {
-  // Initialize aggregation variables
-  let totalSalesVolume = BIGINT_ZERO;
-  let totalSalesCount = BIGINT_ZERO;
-  let highestSalePrice = BIGINT_ZERO;
-  let lowestSalePrice = BigInt.fromI32(2 ** 31 - 1); // Setting it to max int32 value initially
-  let sumOfSalePrices = BigDecimal.fromString("0");
-
-  // Iterate over each transaction to calculate the aggregated data
-  for (let i = 0; i < transactions.length; i++) {
-    let transaction = transactions[i];
-
-    // Only process transactions that are of type SALE
-    if (transaction.transactionType == "SALE") {
-      totalSalesVolume = totalSalesVolume.plus(transaction.nftSalePrice);
-      totalSalesCount = totalSalesCount.plus(BIGINT_ONE);
-
-      // Update the highest sale price if current transaction is higher
-      if (transaction.nftSalePrice.gt(highestSalePrice)) {
-        highestSalePrice = transaction.nftSalePrice;
-      }
-
-      // Update the lowest sale price if current transaction is lower
-      if (transaction.nftSalePrice.lt(lowestSalePrice)) {
-        lowestSalePrice = transaction.nftSalePrice;
-      }
-
-      // Sum up the sale prices for average calculation
-      sumOfSalePrices = sumOfSalePrices.plus(
-        transaction.nftSalePrice.toBigDecimal()
-      );
-    }
-  }
-
-  // Calculate the average sale price
-  let averageSalePrice = sumOfSalePrices.div(totalSalesCount.toBigDecimal());
-
-  // Return the aggregated data
-  return {
-    totalSalesVolume,
-    averageSalePrice,
-    totalSalesCount,
-    highestSalePrice,
-    lowestSalePrice,
-  };
-}
-
 /**
  * Analyzes the logs in the transaction receipt to determine the type of transaction (TRADE, MINT, TRANSFER).
  * It checks for specific event signatures in the logs to classify the transaction.
@@ -128,7 +85,7 @@ function determineTransactionTypeFromReceiptLogs(receipt: ethereum.TransactionRe
   
   // Return the determined transaction type.
   return transactionType;
-}
+}*/
 
 /**
  * Function to calculate the highest sale price.
@@ -141,13 +98,13 @@ function determineTransactionTypeFromReceiptLogs(receipt: ethereum.TransactionRe
  * @param currentPrice - The price of the current sale.
  * @param previousHighestPrice - The previously recorded highest sale price, or null if this is the first transaction.
  * @returns - The updated highest sale price.
- 
+ */
 export function calculateHighestSalePrice(
   currentPrice: BigInt,
   previousHighestPrice: BigInt | null
 ): BigInt {
   // If there's no previous highest sale price (i.e., first transaction), set the current sale price as the highest.
-  if (previousHighestPrice == null) {
+  if (previousHighestPrice === null) {
     return currentPrice;
   }
   // Compare the current sale price with the previous highest sale price and return the higher value.
@@ -168,13 +125,13 @@ export function calculateHighestSalePrice(
  * @param currentPrice - The price of the current sale.
  * @param previousLowestPrice - The previously recorded lowest sale price, or null if this is the first transaction.
  * @returns - The updated lowest sale price.
- 
+ */
 export function calculateLowestSalePrice(
   currentPrice: BigInt,
   previousLowestPrice: BigInt | null
 ): BigInt {
   // If there's no previous lowest sale price (i.e., first transaction), set the current sale price as the lowest.
-  if (previousLowestPrice == null) {
+  if (previousLowestPrice === null) {
     return currentPrice;
   }
   // Compare the current sale price with the previous lowest sale price and return the lower value.
@@ -191,6 +148,7 @@ export function calculateLowestSalePrice(
  * @param totalSalesVolume - The total sales volume (sum of all sale prices).
  * @param totalSalesCount - The total number of sales.
  * @returns The average sale price as a BigDecimal.
+ */
 export function calculateAverageSalePrice(
   totalSalesVolume: BigInt,
   totalSalesCount: BigInt
@@ -207,13 +165,14 @@ export function calculateAverageSalePrice(
 
   // Calculate the average sale price by dividing total sales volume by total sales count
   return totalSalesVolumeDecimal.div(totalSalesCountDecimal);
-}*/
+}
 
 /**
  * Creates or updates a CovenToken entity using the tokenId as the primary parameter.
  *
  * @param tokenId - The unique ID of the token being transferred.
- 
+ * @returns The loaded or newly created CovenToken entity.
+ */
 export function createOrUpdateCovenToken(tokenId: BigInt): CovenToken {
   // Convert the tokenId to a hex string to use as the ID for the CovenToken entity.
   let id = tokenId.toHex();
@@ -237,10 +196,14 @@ export function createOrUpdateCovenToken(tokenId: BigInt): CovenToken {
     token.blockNumber = BigInt.zero();
     token.blockTimestamp = BigInt.zero();
 
-    // Placeholder for `from`, `to`, and `owner` fields, to be set later.
-    // token.from = ...; // To be set based on event data.
-    // token.to = ...;   // To be set based on event data.
-    // token.owner = ...; // To be set based on event data.
+    // Initialize `from`, `to`, and `owner` with the zero address, they are set later based on event data.
+    token.from = ZERO_ADDRESS.toHex();
+    token.to = ZERO_ADDRESS.toHex();
+    token.owner = ZERO_ADDRESS;
+    token.burned = false;
+
+    // The token has no holding period until its first transfer.
+    token.ownerCount = BIGINT_ZERO;
   }
 
   // Save the entity to the store.
@@ -248,119 +211,6 @@ export function createOrUpdateCovenToken(tokenId: BigInt): CovenToken {
   return token as CovenToken;
 }
 
-/**
- * Extracts the tokenId from an Ethereum transaction's logs by traversing through the logs
- * and finding a Transfer event that is associated with the OrdersMatched event.
- *
- * @param event - The Ethereum event object containing the logs from which to extract the tokenId.
- * @returns The extracted tokenId if found, otherwise null.
- */
-export function extractTokenIdFromLogs(event: ethereum.Event): BigInt | null {
-  // Step 1: Ensure the event's receipt exists and contains logs
-  // The receipt is an object that contains all the logs generated during the transaction.
-  // If the receipt is null or doesn't contain any logs, log a warning and return null.
-  if (!event.receipt) {
-    log.warning("[extractTokenIdFromLogs] No logs found in event receipt", []);
-    return null;
-  }
-
-  // Step 2: Extract the logs from the event receipt
-  // Logs are essentially event data generated during the execution of the transaction.
-  // They are stored as an array of log objects within the receipt.
-  const logs = event.receipt!.logs;
-
-  // Step 3: Initialize a variable to track the index of the OrdersMatched event
-  // This variable will help us identify the position of the OrdersMatched event in the logs array.
-  let ordersMatchedIndex = -1;
-
-  // Step 4: Loop through the logs to locate the OrdersMatched event
-  // Each log entry contains topics, which are indexed parameters used to identify the event type.
-  // The first topic is always the event signature, so we compare it against the OrdersMatched event signature.
-  for (let i = 0; i < logs.length; i++) {
-    let currLog = logs[i]; // Access the log at the current index.
-
-    // Check if the first topic matches the OrdersMatched event signature
-    if (
-      currLog.topics.length > 0 &&
-      currLog.topics[0].equals(ORDERS_MATCHED_EVENT_SIG)
-    ) {
-      // If a match is found, store the index of this log entry and break out of the loop
-      ordersMatchedIndex = i;
-      break;
-    }
-  }
-
-  // Step 5: If the OrdersMatched event was found, proceed to find the Transfer event
-  // We loop through the logs again, but this time we skip the log entry at the ordersMatchedIndex.
-  if (ordersMatchedIndex != -1) {
-    for (let i = 0; i < logs.length; i++) {
-      if (i == ordersMatchedIndex) continue; // Skip the OrdersMatched event log
-
-      let currLog = logs[i]; // Access the log at the current index.
-      let topics = currLog.topics; // Extract the topics from the current log.
-
-      // Step 6: Check if the current log is a Transfer event
-      // The Transfer event is identified by comparing the first topic to the TRANSFER_EVENT_SIG.
-      if (topics.length > 0 && topics[0].equals(TRANSFER_EVENT_SIG)) {
-        // Step 7: Decode the tokenId from the log's data field
-        // The data field of the Transfer event contains the tokenId or the amount transferred.
-        const dataValue = ethereum.decode("uint256", currLog.data);
-
-        // Step 8: Convert the decoded value to a BigInt if it exists
-        if (dataValue) {
-          const tokenId = dataValue.toBigInt();
-
-          // If tokenId is valid, return it
-          if (tokenId) {
-            return tokenId;
-          }
-        }
-      }
-    }
-  }
-
-  // Step 9: If no valid Transfer event was found or tokenId extraction failed, log a warning
-  // Logging helps with debugging by recording cases where the function didn't work as expected.
-  log.warning(
-    "[extractTokenIdFromLogs] No matching Transfer event found or tokenId extraction failed",
-    []
-  );
-
-  // If tokenId couldn't be extracted, return null
-  return null;
-}
-/**
- * Checks if the OrdersMatched event is present in the transaction logs.
- *
- * @param event - The Ethereum event object containing the logs.
- * @returns True if the OrdersMatched event is found, otherwise false.
- */
-export function checkForOrdersMatched(event: ethereum.Event): boolean {
-  // Step 1: Check if the event's receipt contains logs
-  if (!event.receipt) {
-    log.warning("[checkForOrdersMatched] No logs found in event receipt", []);
-    return false;
-  }
-
-  // Step 2: Iterate through the logs to find the OrdersMatched event
-  const logs = event.receipt!.logs;
-
-  for (let i = 0; i < logs.length; i++) {
-    let currLog = logs[i]; // Access the log at the current index
-
-    // Step 3: Check if the current log matches the OrdersMatched event signature
-    if (
-      currLog.topics.length > 0 &&
-      currLog.topics[0].equals(ORDERS_MATCHED_EVENT_SIG)
-    ) {
-      return true; // OrdersMatched event found
-    }
-  }
-
-  // Step 4: Return false if the OrdersMatched event is not found
-  return false;
-}
-
 /*export function getTokenIdFromReceipt(event: ethereum.Event): BigInt | null {
   // Ensure the event has a receipt
   if (!event.receipt) {
@@ -1,17 +1,54 @@
-import { log } from "@graphprotocol/graph-ts";
-import { Transfer as TransferEvent } from "../../generated/CryptoCoven/CryptoCoven";
+import { ethereum, log } from "@graphprotocol/graph-ts";
+import {
+  Approval as ApprovalEvent,
+  ApprovalForAll as ApprovalForAllEvent,
+  ClaimCall,
+  GiftWitchesCall,
+  MintCall,
+  MintCommunitySaleCall,
+  ReserveForGiftingCall,
+  RollOverWitchesCall,
+  SetBaseURICall,
+  SetVerificationHashCall,
+  Transfer as TransferEvent,
+  WithdrawCall,
+  WithdrawTokensCall,
+} from "../../generated/CryptoCoven/CryptoCoven";
 import {
   loadOrCreateAccount,
   createAccountHistory,
   updateTransactionCounts,
   updateAccountType,
-  determineAccountType,
 } from "../helpers/accountHelper";
+import { createOrUpdateCovenToken, isBurnAddress } from "../helpers/utils";
+import {
+  TransferLog,
+  decodeOrdersMatchedLog,
+  findPairedOrdersMatched,
+  findSaleTransfers,
+  processSale,
+} from "../helpers/saleHelper";
+import { recordBurn, recordMint } from "../helpers/collectionHelper";
+import { classifyMintedTokens, recordMintedToken } from "../helpers/mintHelper";
+import { recordWithdrawal } from "../helpers/treasuryHelper";
+import { recordOperatorApproval } from "../helpers/approvalHelper";
+import {
+  flagOperatorApproval,
+  flagOperatorTransfer,
+} from "../helpers/securityHelper";
 import {
-  checkForOrdersMatched,
-  createOrUpdateCovenToken,
-} from "../helpers/utils";
+  createTokenMetadata,
+  refreshTokenMetadata,
+} from "../helpers/metadataHelper";
+import { normalizeURI } from "../helpers/uriHelper";
+import { recordOwnershipChange } from "../helpers/ownershipHelper";
+import {
+  loadOrCreateProvenance,
+  recordBaseURIChange,
+  recordProvenanceChange,
+} from "../helpers/provenanceHelper";
 import { ZERO_ADDRESS } from "../helpers/constant";
+import { CovenToken } from "../../generated/schema";
 
 export enum transactionType {
   MINT,
@@ -24,15 +61,18 @@ export enum transactionType {
  *
  * This function manages the entire lifecycle of a token transfer event. It handles
  * the creation and updating of account and token entities, determines the type of
- * transaction (mint, transfer, or trade), and updates transaction counts accordingly.
+ * transaction (mint, burn, transfer, or trade), and updates transaction counts accordingly.
  *
  * @param event - The Transfer event object containing information about the token transfer.
  */
 export function handleTransfer(event: TransferEvent): void {
   // Step 1: Load or create Account entities for the 'from' and 'to' addresses involved in the transfer.
   // This ensures that both accounts exist in the subgraph, even if they haven't interacted before.
+  // A self-transfer reuses the same entity, so the updates to the sender aren't overwritten by a stale copy.
   let fromAccount = loadOrCreateAccount(event.params.from);
-  let toAccount = loadOrCreateAccount(event.params.to);
+  let toAccount = event.params.to.equals(event.params.from)
+    ? fromAccount
+    : loadOrCreateAccount(event.params.to);
 
   // Step 2: Initialize transaction details for both accounts.
   // This includes setting the log index, transaction hash, block number, and timestamp
@@ -58,52 +98,325 @@ export function handleTransfer(event: TransferEvent): void {
   token.txHash = event.transaction.hash;
   token.blockNumber = event.block.number;
   token.blockTimestamp = event.block.timestamp;
+  token.from = fromAccount.id; // Link the token to the account that sent it.
+  token.to = toAccount.id; // Link the token to the account that received it.
   token.owner = event.params.to; // Update the owner of the token to the 'to' address.
+  token.approved = null; // A transfer clears the approval of the token.
 
-  // Step 5: Determine if the transaction is a mint operation.
+  // Step 5: Determine if the transaction is a mint or a burn operation.
   // A mint operation occurs when the 'from' address is the zero address, indicating that
   // the token is being created rather than transferred.
+  // A burn operation occurs when the 'to' address is one of the burn addresses, indicating that
+  // the token is taken out of circulation.
   let isMint = event.params.from == ZERO_ADDRESS;
+  let isBurn = !isMint && isBurnAddress(event.params.to);
+
+  // For mints, fetch the tokenURI and spawn the file data source
+  // that indexes the metadata of the witch from IPFS or Arweave.
+  // The Provenance entity is also created on the first mint so it holds the committed hash
+  // before any metadata is revealed.
+  // The token is added to the MintBatch of its transaction, which the mint call handler uses to tag it with its mint phase.
+  if (isMint) {
+    createTokenMetadata(
+      token,
+      event.params.tokenId,
+      event.address,
+      event.block
+    );
+    loadOrCreateProvenance(event.address);
+    recordMint(toAccount, event);
+    recordMintedToken(token, event);
+  }
+
+  // For burns, record the Burn and take the token out of the circulating supply.
+  if (isBurn) {
+    recordBurn(token, fromAccount, event.params.to, event);
+  }
 
   // Save the updated CovenToken entity.
   // It's important to save the token entity after updating its fields to persist these changes.
   token.save();
 
-  // Step 6: Determine the transaction type using the checkForOrdersMatched function.
-  // If it's a mint, we classify the transaction as "MINT".
-  // Otherwise, we check if it's a trade by using checkForOrdersMatched function. If a trade
-  // is detected, the transaction type is set to "TRADE". If not, it's classified as a "TRANSFER".
+  // Step 6: Determine the transaction type using the findPairedOrdersMatched function.
+  // If it's a mint, we classify the transaction as "MINT", and if it's a burn as "BURN".
+  // Otherwise, we check if it's a trade by looking for the OrdersMatched log that sold this transfer.
+  // If one is found, the transaction type is set to "TRADE". If not, it's classified as a "TRANSFER".
+  let orderLog: ethereum.Log | null = null;
+  if (!isMint && !isBurn) {
+    orderLog = findPairedOrdersMatched(
+      event,
+      event.params.from,
+      event.params.to
+    );
+  }
   let transactionType = isMint
     ? "MINT"
-    : checkForOrdersMatched(event)
+    : isBurn
+    ? "BURN"
+    : orderLog != null
     ? "TRADE"
     : "TRANSFER";
 
-  // Step 7: Update transaction counts based on the determined transaction type.
+  // Step 7: Record the transfer in the chain of custody of the token.
+  // The holding period of the sender is closed and a new one is opened for the recipient,
+  // which also updates the holding metrics of both accounts.
+  recordOwnershipChange(token, fromAccount, toAccount, transactionType, event);
+  token.save();
+  fromAccount.save();
+  toAccount.save();
+
+  // Step 8: Update transaction counts based on the determined transaction type.
   // This step ensures that the appropriate counters are incremented based on the type of transaction.
   if (transactionType === "MINT") {
     // For mint transactions, we update the transaction counts for the recipient account.
     updateTransactionCounts(toAccount, "MINT");
   } else if (transactionType === "TRADE") {
-    // For trade transactions, we update the transaction counts for both the sender and recipient accounts.
-    updateTransactionCounts(fromAccount, "TRADE");
-    updateTransactionCounts(toAccount, "TRADE");
+    // For trade transactions, the sale pipeline records the Sale and counts it once for the seller
+    // and the buyer. It is skipped if handleOpenSea has already processed the sale.
+    let order = decodeOrdersMatchedLog(orderLog!);
+    let saleTransfers = findSaleTransfers(event, order.logIndex);
+    processSale(
+      order,
+      new TransferLog(
+        event.params.from,
+        event.params.to,
+        event.params.tokenId,
+        event.logIndex
+      ),
+      saleTransfers.length > 0 ? saleTransfers.length : 1,
+      fromAccount,
+      toAccount,
+      event,
+      "handleTransfer"
+    );
+    fromAccount.save();
+    toAccount.save();
+  } else if (transactionType === "BURN") {
+    // For burn transactions, we only update the transaction counts for the sender, the burn address holds nothing.
+    updateTransactionCounts(fromAccount, "BURN");
   } else {
     // For transfer transactions, we update the transaction counts for both the sender and recipient accounts.
+    // A self-transfer is counted once.
     updateTransactionCounts(fromAccount, "TRANSFER");
-    updateTransactionCounts(toAccount, "TRANSFER");
+    if (toAccount !== fromAccount) {
+      updateTransactionCounts(toAccount, "TRANSFER");
+    }
   }
 
-  // Step 8: Update account types and histories.
+  // Step 9: Update account types and histories.
   // This step involves updating the account types (e.g., whether the account is a buyer, seller, etc.)
   // and creating account history entities to track past transactions.
-  determineAccountType(fromAccount);
-  determineAccountType(toAccount);
-
   updateAccountType(fromAccount);
   updateAccountType(toAccount);
 
   // Creating account history records for both accounts involved in the transaction.
   createAccountHistory(fromAccount);
   createAccountHistory(toAccount);
+
+  // Step 10: Flag the transfer if it was sent by an operator approved shortly before.
+  // This helps triage stolen tokens drained through a phishing approval.
+  if (!isMint) {
+    flagOperatorTransfer(token, event.params.from, event);
+  }
+}
+
+/**
+ * Handles Approval events from the smart contract.
+ *
+ * Keeps the address approved to transfer a single token on the CovenToken entity.
+ * An approval of the zero address clears it.
+ *
+ * @param event - The Approval event object containing the owner, the approved address and the tokenId.
+ */
+export function handleApproval(event: ApprovalEvent): void {
+  // Step 1: Load the CovenToken entity, a token is always minted before it can be approved.
+  let token = CovenToken.load(event.params.tokenId.toHex());
+
+  if (!token) {
+    log.warning("[handleApproval] Token {} not found", [
+      event.params.tokenId.toString(),
+    ]);
+    return;
+  }
+
+  // Step 2: Update the approved address of the token.
+  token.approved =
+    event.params.approved == ZERO_ADDRESS ? null : event.params.approved;
+  token.save();
+}
+
+/**
+ * Handles ApprovalForAll events from the smart contract.
+ *
+ * Keeps the current status of every operator approved by an owner for all of its tokens,
+ * along with the history of every grant and revocation.
+ *
+ * @param event - The ApprovalForAll event object containing the owner, the operator and the new status.
+ */
+export function handleApprovalForAll(event: ApprovalForAllEvent): void {
+  // Step 1: Load or create the Account entity of the owner, the approval is linked to it.
+  loadOrCreateAccount(event.params.owner);
+
+  // Step 2: Record the change and update the current status of the operator.
+  let approval = recordOperatorApproval(
+    event.params.owner,
+    event.params.operator,
+    event.params.approved,
+    event
+  );
+
+  // Step 3: Flag the grant if the operator isn't a known marketplace proxy.
+  flagOperatorApproval(approval, event.params.owner, event.params.operator);
+}
+
+/**
+ * Handles calls to setVerificationHash on the smart contract.
+ *
+ * The verificationHash is the provenance committed by the contract owner. Every change
+ * is recorded as a ProvenanceChange so the revealed metadata can be checked against it.
+ *
+ * @param call - The setVerificationHash call object containing the new hash.
+ */
+export function handleSetVerificationHash(call: SetVerificationHashCall): void {
+  // Step 1: Load or create the Provenance entity of the contract.
+  // Its hash isn't seeded from the chain, which already returns the hash set by this call.
+  let provenance = loadOrCreateProvenance(call.to, false, true);
+
+  // Step 2: Record the change and update the Provenance entity with the new hash.
+  recordProvenanceChange(provenance, call.inputs._verificationHash, call);
+}
+
+/**
+ * Handles calls to setBaseURI on the smart contract.
+ *
+ * Every change is recorded as a BaseURIChange. When the new base URI points to a different
+ * root, a new metadata file data source is spawned for every token so each CovenToken
+ * points to its current metadata, while the previous NFTMetadata versions stay queryable.
+ *
+ * @param call - The setBaseURI call object containing the new base URI.
+ */
+export function handleSetBaseURI(call: SetBaseURICall): void {
+  // Step 1: Load or create the Provenance entity of the contract.
+  // Its base URI isn't seeded from the chain, which already returns the base URI set by this call.
+  let provenance = loadOrCreateProvenance(call.to, true, false);
+  let newBaseURI = call.inputs._baseURI;
+
+  // Step 2: Check whether the new base URI moves the metadata to a different root.
+  let oldURI = normalizeURI(provenance.baseURI);
+  let newURI = normalizeURI(newBaseURI);
+  let rootChanged =
+    newURI != null && (oldURI == null || oldURI!.cid != newURI!.cid);
+
+  // Step 3: Record the change and update the Provenance entity with the new base URI.
+  recordBaseURIChange(provenance, newBaseURI, rootChanged, call);
+
+  // Step 4: Re-resolve the metadata of every token from the new root.
+  if (rootChanged) {
+    refreshTokenMetadata(call.to, newBaseURI, call.block);
+  }
+}
+
+/**
+ * Handles calls to mint on the smart contract.
+ * Tags the tokens minted during the public sale with the PUBLIC mint phase.
+ *
+ * @param call - The mint call object containing the number of tokens minted.
+ */
+export function handleMint(call: MintCall): void {
+  classifyMintedTokens(
+    call,
+    call.inputs.numberOfTokens.toI32(),
+    "PUBLIC",
+    "mint(uint256)"
+  );
+}
+
+/**
+ * Handles calls to mintCommunitySale on the smart contract.
+ * Tags the tokens minted by the community list with the COMMUNITY mint phase.
+ *
+ * @param call - The mintCommunitySale call object containing the number of tokens minted.
+ */
+export function handleMintCommunitySale(call: MintCommunitySaleCall): void {
+  classifyMintedTokens(
+    call,
+    call.inputs.numberOfTokens,
+    "COMMUNITY",
+    "mintCommunitySale(uint8,bytes32[])"
+  );
+}
+
+/**
+ * Handles calls to claim on the smart contract.
+ * Tags the token claimed by the claim list with the CLAIM mint phase, a claim mints one token.
+ *
+ * @param call - The claim call object.
+ */
+export function handleClaim(call: ClaimCall): void {
+  classifyMintedTokens(call, 1, "CLAIM", "claim(bytes32[])");
+}
+
+/**
+ * Handles calls to giftWitches on the smart contract.
+ * Tags the tokens gifted by the contract owner with the GIFT mint phase, one per address.
+ *
+ * @param call - The giftWitches call object containing the gifted addresses.
+ */
+export function handleGiftWitches(call: GiftWitchesCall): void {
+  classifyMintedTokens(
+    call,
+    call.inputs.addresses.length,
+    "GIFT",
+    "giftWitches(address[])"
+  );
+}
+
+/**
+ * Handles calls to reserveForGifting on the smart contract.
+ * Tags the tokens reserved by the contract owner with the RESERVE mint phase.
+ *
+ * @param call - The reserveForGifting call object containing the number of tokens reserved.
+ */
+export function handleReserveForGifting(call: ReserveForGiftingCall): void {
+  classifyMintedTokens(
+    call,
+    call.inputs.numToReserve.toI32(),
+    "RESERVE",
+    "reserveForGifting(uint256)"
+  );
+}
+
+/**
+ * Handles calls to rollOverWitches on the smart contract.
+ * Tags the tokens rolled over from the previous contract with the ROLLOVER mint phase, one per address.
+ *
+ * @param call - The rollOverWitches call object containing the rolled over addresses.
+ */
+export function handleRollOverWitches(call: RollOverWitchesCall): void {
+  classifyMintedTokens(
+    call,
+    call.inputs.addresses.length,
+    "ROLLOVER",
+    "rollOverWitches(address[])"
+  );
+}
+
+/**
+ * Handles calls to withdraw on the smart contract.
+ * Records the ETH withdrawal in the treasury ledger of the collection.
+ *
+ * @param call - The withdraw call object.
+ */
+export function handleWithdraw(call: WithdrawCall): void {
+  recordWithdrawal(call, null);
+}
+
+/**
+ * Handles calls to withdrawTokens on the smart contract.
+ * Records the ERC20 withdrawal in the treasury ledger of the collection.
+ *
+ * @param call - The withdrawTokens call object containing the withdrawn token.
+ */
+export function handleWithdrawTokens(call: WithdrawTokensCall): void {
+  recordWithdrawal(call, call.inputs.token);
 }
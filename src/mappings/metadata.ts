@@ -0,0 +1,150 @@
+import {
+  Bytes,
+  crypto,
+  dataSource,
+  json,
+  JSONValueKind,
+  log,
+} from "@graphprotocol/graph-ts";
+import {
+  createAttributes,
+  createCoven,
+  initializeNFTMetadata,
+} from "../helpers/traits";
+import {
+  getArrayField,
+  getObjectField,
+  getStringField,
+} from "../helpers/jsonHelper";
+import { createMedia } from "../helpers/mediaHelper";
+import { recordMetadataResult } from "../helpers/statusHelper";
+import {
+  CID_CONTEXT_KEY,
+  METADATA_ERROR_MALFORMED_JSON,
+  METADATA_ERROR_MISSING_FIELDS,
+  METADATA_ERROR_NONE,
+  METADATA_ERROR_WRONG_SCHEMA,
+  PATH_CONTEXT_KEY,
+  STORAGE_PROTOCOL_CONTEXT_KEY,
+  TOKEN_ID_CONTEXT_KEY,
+  VERSION_CONTEXT_KEY,
+} from "../helpers/constant";
+
+/**
+ * Handles the metadata JSON fetched by the NFTMetadata file data source.
+ *
+ * This function is called by both the NFTMetadata (IPFS) and ArweaveMetadata file data sources
+ * once the metadata file of a witch is available. It parses the JSON
+ * and creates the NFTMetadata entity along with the Coven, Description, Skills, BirthChart,
+ * Style and Attribute entities, all linked to the CovenToken whose tokenId was passed
+ * through the data source context. The outcome, including the reason a file could not be
+ * fully indexed, is recorded in a MetadataResult.
+ *
+ * @param content - The raw content of the metadata file.
+ */
+export function handleMetadata(content: Bytes): void {
+  // Step 1: Read the source and the token and URI details this data source was created for.
+  let source = dataSource.stringParam();
+  let context = dataSource.context();
+  let tokenId = context.getString(TOKEN_ID_CONTEXT_KEY);
+  let cid = context.getString(CID_CONTEXT_KEY);
+  let version = context.getI32(VERSION_CONTEXT_KEY);
+
+  // Step 2: Parse the file content as JSON.
+  // try_fromBytes is used so a malformed file doesn't fail the whole subgraph.
+  let result = json.try_fromBytes(content);
+
+  if (result.isError) {
+    log.warning("[handleMetadata] Malformed metadata JSON at {} for token {}", [
+      source,
+      tokenId,
+    ]);
+    recordMetadataResult(
+      source,
+      tokenId,
+      version,
+      cid,
+      METADATA_ERROR_MALFORMED_JSON,
+      null
+    );
+    return;
+  }
+
+  if (result.value.kind != JSONValueKind.OBJECT) {
+    log.warning(
+      "[handleMetadata] Metadata at {} for token {} is not an object",
+      [source, tokenId]
+    );
+    recordMetadataResult(
+      source,
+      tokenId,
+      version,
+      cid,
+      METADATA_ERROR_WRONG_SCHEMA,
+      null
+    );
+    return;
+  }
+
+  let value = result.value.toObject();
+  let error = METADATA_ERROR_NONE;
+
+  // Step 3: Create the NFTMetadata entity and fill it with the fields from the JSON.
+  let metadata = initializeNFTMetadata(source, tokenId);
+  metadata.storageProtocol = context.getString(STORAGE_PROTOCOL_CONTEXT_KEY);
+  metadata.cid = cid;
+  metadata.path = context.getString(PATH_CONTEXT_KEY);
+  metadata.name = getStringField(value, "name");
+  metadata.description = getStringField(value, "description");
+  metadata.image = getStringField(value, "image");
+  metadata.externalURL = getStringField(value, "external_url");
+  metadata.backgroundColor = getStringField(value, "background_color");
+  metadata.imageOriginalURL = getStringField(value, "image_original_url");
+  metadata.animationURL = getStringField(value, "animation_url");
+
+  // Flag the metadata if any of the fields every witch has is missing.
+  if (
+    metadata.name.length == 0 ||
+    metadata.description.length == 0 ||
+    metadata.image.length == 0
+  ) {
+    error = METADATA_ERROR_MISSING_FIELDS;
+  }
+
+  // Normalize the media fields so each file has a gateway-neutral reference.
+  metadata.imageMedia = createMedia(source, tokenId, "image", metadata.image);
+  metadata.imageOriginalMedia = createMedia(
+    source,
+    tokenId,
+    "image_original_url",
+    metadata.imageOriginalURL
+  );
+  metadata.animationMedia = createMedia(
+    source,
+    tokenId,
+    "animation_url",
+    metadata.animationURL
+  );
+
+  // Hash the raw file so the revealed metadata can be compared against the provenance.
+  metadata.contentHash = Bytes.fromByteArray(crypto.keccak256(content));
+
+  // Step 4: Create the Coven entity and its sections from the `coven` object.
+  // Metadata without a coven doesn't follow the CryptoCoven schema.
+  let covenObject = getObjectField(value, "coven");
+  if (covenObject) {
+    let coven = createCoven(source, tokenId, covenObject);
+    metadata.coven = coven.id;
+  } else {
+    error = METADATA_ERROR_WRONG_SCHEMA;
+  }
+
+  // Step 5: Create an Attribute entity for each entry of the `attributes` array.
+  createAttributes(source, tokenId, getArrayField(value, "attributes"));
+
+  // Save the NFTMetadata entity once all fields are set, as it is immutable.
+  metadata.save();
+
+  // Step 6: Record the outcome of the request.
+  recordMetadataResult(source, tokenId, version, cid, error, metadata.id);
+}
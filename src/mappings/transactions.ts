@@ -1,20 +1,26 @@
-import { OrdersMatched as OrdersMatchedEvent } from "../../generated/Opensea/Opensea";
+import { BigInt } from "@graphprotocol/graph-ts";
+import {
+  AtomicMatch_Call,
+  OrdersMatched as OrdersMatchedEvent,
+} from "../../generated/Opensea/Opensea";
 import {
   loadOrCreateAccount,
   createAccountHistory,
-  updateTransactionCounts,
   updateAccountType,
-  determineAccountType,
 } from "../helpers/accountHelper";
 import {
   calculateAverageSalePrice,
   calculateHighestSalePrice,
   calculateLowestSalePrice,
   createOrUpdateCovenToken,
-  extractTokenIdFromLogs,
 } from "../helpers/utils";
+import {
+  OrderLog,
+  findSaleTransfers,
+  processSale,
+} from "../helpers/saleHelper";
 import { createOrUpdateTransaction } from "../helpers/transactionHelper";
-import { BIGINT_ONE } from "../helpers/constant";
+import { recordMatchedOrders } from "../helpers/orderHelper";
 
 export enum transactionType {
   MINT,
@@ -26,53 +32,101 @@ export enum transactionType {
  * Handles OrdersMatched events from the OpenSea smart contract.
  *
  * This function processes the OrdersMatched event, which signifies a successful sale of an NFT
- * on OpenSea. It updates the related entities with transaction details, including:
+ * on OpenSea. Sales that don't transfer a CryptoCoven token are skipped.
+ * It updates the related entities with transaction details, including:
  * - Creating or updating the Transaction entity to record the sale.
- * - Extracting the tokenId from logs and updating the CovenToken entity.
- * - Updating the buyer and seller accounts with transaction details and transaction counts.
+ * - Pairing the event with the Transfer logs of the tokens it sold and processing each sale once,
+ *   whether or not handleTransfer has already processed it.
+ * - Updating the buyer and seller accounts, taken from the direction of the transfers, with transaction details.
+ *   The accounts and their histories are only updated if this handler processed the sale,
+ *   the Transaction is saved in every case.
  * - Setting the transaction type to TRADE to reflect that it is a sale transaction.
  *
  * @param event - The OrdersMatched event object containing information about the order match.
  */
 export function handleOpenSea(event: OrdersMatchedEvent): void {
+  // Find the CryptoCoven Transfer logs this order sold, right before it in the receipt.
+  // OrdersMatched is emitted for every NFT sold on OpenSea, so nothing is recorded
+  // unless the order sold a witch.
+  let transfers = findSaleTransfers(event, event.logIndex);
+  if (transfers.length == 0) {
+    return;
+  }
+
   // Step 1: Create or update the Transaction entity based on the event's transaction details.
-  let buyerAccount = loadOrCreateAccount(event.params.taker);
-  let sellerAccount = loadOrCreateAccount(event.params.maker);
   let transaction = createOrUpdateTransaction(event);
 
-  // Step 2: Extract the tokenId from the event logs.
-  let tokenIdfromReceipt = extractTokenIdFromLogs(event);
-
-  // Step 3: Check if the tokenId is valid before proceeding.
-  if (tokenIdfromReceipt) {
-    // Step 4: Create or update the CovenToken entity.
-    let covenToken = createOrUpdateCovenToken(tokenIdfromReceipt);
-
-    // Step 5: Set the new owner of the token.
-    covenToken.owner = event.params.taker;
+  // Step 2: Process the sale of every token sold by the order.
+  // The sale pipeline records the Sale, counts it once for the seller and the buyer and adds it
+  // to the secondary volume. Sales already processed by handleTransfer are skipped.
+  let order = new OrderLog(
+    event.params.maker,
+    event.params.taker,
+    event.params.buyHash,
+    event.params.sellHash,
+    event.params.price,
+    event.logIndex
+  );
+  let processedCount = 0;
+  for (let i = 0; i < transfers.length; i++) {
+    let transfer = transfers[i];
+    let seller = loadOrCreateAccount(transfer.from);
+    let buyer = loadOrCreateAccount(transfer.to);
+    let sale = processSale(
+      order,
+      transfer,
+      transfers.length,
+      seller,
+      buyer,
+      event,
+      "handleOpenSea"
+    );
+    if (sale) {
+      processedCount++;
+    }
+    seller.save();
+    buyer.save();
+
+    // Step 3: Create or update the CovenToken entity and set its new owner.
+    let covenToken = createOrUpdateCovenToken(transfer.tokenId);
+    covenToken.owner = transfer.to;
 
     // Save the updated CovenToken entity.
     covenToken.save();
-
-    // Step 6: Update the Transaction entity with the tokenId as the referenceId.
-    transaction.referenceId = tokenIdfromReceipt.toHex();
-
-    // Save the updated Transaction entity with the new referenceId.
-    transaction.save();
   }
 
-  // Step 7: Calculate various statistics related to the sale.
-  let salePrice = event.params.price;
-  let previousHighestSalePrice = transaction.highestSalePrice;
-  let previousLowestSalePrice = transaction.lowestSalePrice;
-
-  // Calculate the total sales volume based on the sale price and the number of NFTs sold.
-  let totalSalesVolume = salePrice.times(transaction.totalNFTsSold);
+  // Step 4: Load the buyer and seller accounts after the sale pipeline has updated them.
+  // The roles come from the direction of the transfers: the maker is the seller when it listed the
+  // token, but the buyer when the seller accepted its offer.
+  let buyerAccount = loadOrCreateAccount(transfers[0].to);
+  let sellerAccount = loadOrCreateAccount(transfers[0].from);
+
+  // Step 5: Update the Transaction entity with the first sold tokenId as the referenceId
+  // and the parties of the sale.
+  transaction.referenceId = transfers[0].tokenId.toHex();
+  transaction.account = buyerAccount.id;
+  transaction.buyer = transfers[0].to;
+  transaction.seller = transfers[0].from;
+
+  // Step 6: Calculate various statistics related to the sale.
+  // The price of the order is split evenly between the tokens it sold, like the price of each Sale.
+  let totalNFTsSold = BigInt.fromI32(transfers.length);
+  let totalSalesVolume = event.params.price;
+  let salePrice = totalSalesVolume.div(totalNFTsSold);
+
+  // A new Transaction has no previous highest and lowest sale prices.
+  let previousHighestSalePrice: BigInt | null = null;
+  let previousLowestSalePrice: BigInt | null = null;
+  if (!transaction.totalSalesCount.isZero()) {
+    previousHighestSalePrice = transaction.highestSalePrice;
+    previousLowestSalePrice = transaction.lowestSalePrice;
+  }
 
   // Update transaction fields based on the OrdersMatched event.
   transaction.nftSalePrice = salePrice;
-  transaction.totalNFTsSold = BIGINT_ONE; // Set to one NFT sold in this transaction (adjust if needed)
-  transaction.totalSalesVolume = totalSalesVolume; // Set total sales volume
+  transaction.totalNFTsSold = totalNFTsSold;
+  transaction.totalSalesVolume = totalSalesVolume;
+  transaction.totalSalesCount = totalNFTsSold;
   transaction.highestSalePrice = calculateHighestSalePrice(
     salePrice,
     previousHighestSalePrice
@@ -83,7 +137,7 @@ export function handleOpenSea(event: OrdersMatchedEvent): void {
   );
   transaction.averageSalePrice = calculateAverageSalePrice(
     totalSalesVolume,
-    salePrice
+    totalNFTsSold
   );
   transaction.logIndex = event.logIndex;
   transaction.txHash = event.transaction.hash;
@@ -91,9 +145,15 @@ export function handleOpenSea(event: OrdersMatchedEvent): void {
   transaction.blockTimestamp = event.block.timestamp;
 
   // Save the updated Transaction entity with all the updated statistics and details.
+  // It is keyed by the OrdersMatched log, so it is saved whichever handler processed the sale.
   transaction.save();
 
-  // Step 8: Initialize or update transaction details for both accounts.
+  // The sale was already processed by handleTransfer, along with the account counts and histories.
+  if (processedCount == 0) {
+    return;
+  }
+
+  // Step 7: Initialize or update transaction details for both accounts.
   buyerAccount.logIndex = event.logIndex;
   buyerAccount.txHash = event.transaction.hash;
   buyerAccount.blockNumber = event.block.number;
@@ -104,14 +164,8 @@ export function handleOpenSea(event: OrdersMatchedEvent): void {
   sellerAccount.blockNumber = event.block.number;
   sellerAccount.blockTimestamp = event.block.timestamp;
 
-  // Step 9: Update transaction counts for both buyer and seller.
-  updateTransactionCounts(buyerAccount, "TRADE");
-  updateTransactionCounts(sellerAccount, "TRADE");
-
-  // Step 10: Update account types and histories for both buyer and seller.
-  determineAccountType(buyerAccount);
-  determineAccountType(sellerAccount);
-
+  // Step 8: Update account types and histories for both buyer and seller.
+  // The history records the account type determined from the updated counts.
   updateAccountType(buyerAccount);
   updateAccountType(sellerAccount);
 
@@ -122,3 +176,21 @@ export function handleOpenSea(event: OrdersMatchedEvent): void {
   buyerAccount.save();
   sellerAccount.save();
 }
+
+/**
+ * Handles atomicMatch_ calls to the OpenSea smart contract.
+ *
+ * Decodes the buy and sell Wyvern orders matched by the call into Order entities, with the fee and
+ * timing data the OrdersMatched event doesn't emit, and links them to the sales the call made.
+ * Calls that didn't sell a CryptoCoven token are skipped.
+ *
+ * @param call - The atomicMatch_ call object containing the addresses, values and enums of both orders.
+ */
+export function handleAtomicMatch(call: AtomicMatch_Call): void {
+  recordMatchedOrders(
+    call,
+    call.inputs.addrs,
+    call.inputs.uints,
+    call.inputs.feeMethodsSidesKindsHowToCalls
+  );
+}
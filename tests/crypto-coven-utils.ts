@@ -1,11 +1,20 @@
 import { newMockEvent } from "matchstick-as"
-import { ethereum, Address, BigInt } from "@graphprotocol/graph-ts"
+import { ethereum, Address, BigInt, Bytes } from "@graphprotocol/graph-ts"
 import {
   Approval,
   ApprovalForAll,
   OwnershipTransferred,
   Transfer
 } from "../generated/CryptoCoven/CryptoCoven"
+import {
+  COVEN_ADDRESS,
+  ORDERS_MATCHED_EVENT_SIG,
+  TRANSFER_EVENT_SIG
+} from "../src/helpers/constant"
+
+export const OPENSEA_EXCHANGE_ADDRESS = Address.fromString(
+  "0x7be8076f4ea4a4ad08075c2508e481d6c946d12b"
+)
 
 export function createApprovalEvent(
   owner: Address,
@@ -101,3 +110,84 @@ export function createTransferEvent(
 
   return transferEvent
 }
+
+export function createLog(
+  address: Address,
+  topics: Array<Bytes>,
+  data: Bytes,
+  logIndex: i32
+): ethereum.Log {
+  let mockEvent = newMockEvent()
+
+  return new ethereum.Log(
+    address,
+    topics,
+    data,
+    mockEvent.block.hash,
+    Bytes.fromI32(0),
+    mockEvent.transaction.hash,
+    mockEvent.transaction.index,
+    BigInt.fromI32(logIndex),
+    BigInt.fromI32(logIndex),
+    "",
+    null
+  )
+}
+
+export function createTransferLog(
+  from: Address,
+  to: Address,
+  tokenId: BigInt,
+  logIndex: i32
+): ethereum.Log {
+  let topics = new Array<Bytes>()
+
+  topics.push(Bytes.fromByteArray(TRANSFER_EVENT_SIG))
+  topics.push(ethereum.encode(ethereum.Value.fromAddress(from))!)
+  topics.push(ethereum.encode(ethereum.Value.fromAddress(to))!)
+  topics.push(ethereum.encode(ethereum.Value.fromUnsignedBigInt(tokenId))!)
+
+  return createLog(COVEN_ADDRESS, topics, Bytes.empty(), logIndex)
+}
+
+export function createOrdersMatchedLog(
+  maker: Address,
+  taker: Address,
+  price: BigInt,
+  logIndex: i32
+): ethereum.Log {
+  let topics = new Array<Bytes>()
+
+  topics.push(Bytes.fromByteArray(ORDERS_MATCHED_EVENT_SIG))
+  topics.push(ethereum.encode(ethereum.Value.fromAddress(maker))!)
+  topics.push(ethereum.encode(ethereum.Value.fromAddress(taker))!)
+  topics.push(Bytes.fromHexString("0x" + "00".repeat(32)))
+
+  let data = new ethereum.Tuple()
+  data.push(
+    ethereum.Value.fromFixedBytes(Bytes.fromHexString("0x" + "11".repeat(32)))
+  )
+  data.push(
+    ethereum.Value.fromFixedBytes(Bytes.fromHexString("0x" + "22".repeat(32)))
+  )
+  data.push(ethereum.Value.fromUnsignedBigInt(price))
+
+  return createLog(
+    OPENSEA_EXCHANGE_ADDRESS,
+    topics,
+    ethereum.encode(ethereum.Value.fromTuple(data))!,
+    logIndex
+  )
+}
+
+export function createEventWithLogs(
+  logs: Array<ethereum.Log>,
+  logIndex: i32
+): ethereum.Event {
+  let event = newMockEvent()
+
+  event.logIndex = BigInt.fromI32(logIndex)
+  event.receipt!.logs = logs
+
+  return event
+}
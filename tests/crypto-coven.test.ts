@@ -3,60 +3,391 @@ import {
   describe,
   test,
   clearStore,
-  beforeAll,
-  afterAll
+  beforeEach,
+  afterEach,
+  createMockedFunction,
+  newMockCall
 } from "matchstick-as/assembly/index"
-import { Address, BigInt } from "@graphprotocol/graph-ts"
-import { Approval } from "../generated/schema"
-import { Approval as ApprovalEvent } from "../generated/CryptoCoven/CryptoCoven"
-import { handleApproval } from "../src/crypto-coven"
-import { createApprovalEvent } from "./crypto-coven-utils"
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+import { CovenToken, Sale, SaleBatch } from "../generated/schema"
+import {
+  handleApproval,
+  handleApprovalForAll
+} from "../src/mappings/covenToken"
+import {
+  WYVERN_PROXY_REGISTRY_ADDRESS,
+  ZERO_ADDRESS
+} from "../src/helpers/constant"
+import { recordMatchedOrders } from "../src/helpers/orderHelper"
+import {
+  OrderLog,
+  TransferLog,
+  findPairedOrdersMatched,
+  findSaleTransfers,
+  getSaleSide
+} from "../src/helpers/saleHelper"
+import { normalizeURI } from "../src/helpers/uriHelper"
+import {
+  createApprovalEvent,
+  createApprovalForAllEvent,
+  createEventWithLogs,
+  createOrdersMatchedLog,
+  createTransferLog
+} from "./crypto-coven-utils"
 
 // Tests structure (matchstick-as >=0.5.0)
 // https://thegraph.com/docs/en/developer/matchstick/#tests-structure-0-5-0
 
-describe("Describe entity assertions", () => {
-  beforeAll(() => {
-    let owner = Address.fromString("0x0000000000000000000000000000000000000001")
-    let approved = Address.fromString(
-      "0x0000000000000000000000000000000000000001"
-    )
-    let tokenId = BigInt.fromI32(234)
-    let newApprovalEvent = createApprovalEvent(owner, approved, tokenId)
-    handleApproval(newApprovalEvent)
+let owner = Address.fromString("0x0000000000000000000000000000000000000001")
+let approved = Address.fromString("0x0000000000000000000000000000000000000002")
+let operator = Address.fromString("0x0000000000000000000000000000000000000003")
+let wyvernProxy = Address.fromString(
+  "0x0000000000000000000000000000000000000004"
+)
+let seaportConduit = Address.fromString(
+  "0x1E0049783F008A0085193E00003D00cd54003c71"
+)
+
+let seller = Address.fromString("0x0000000000000000000000000000000000000005")
+let buyer = Address.fromString("0x0000000000000000000000000000000000000006")
+let soldTransfer = new TransferLog(
+  seller,
+  buyer,
+  BigInt.fromI32(1),
+  BigInt.fromI32(0)
+)
+
+let alice = Address.fromString("0x0000000000000000000000000000000000000007")
+let bob = Address.fromString("0x0000000000000000000000000000000000000008")
+let carol = Address.fromString("0x0000000000000000000000000000000000000009")
+let dave = Address.fromString("0x000000000000000000000000000000000000000a")
+
+function createCovenToken(tokenId: BigInt, tokenOwner: Address): CovenToken {
+  let token = new CovenToken(tokenId.toHex())
+  token.from = ZERO_ADDRESS.toHex()
+  token.to = tokenOwner.toHex()
+  token.owner = tokenOwner
+  token.burned = false
+  token.ownerCount = BigInt.fromI32(1)
+  token.tokenId = tokenId.toString()
+  token.tokenMintCount = BigInt.fromI32(1)
+  token.logIndex = BigInt.fromI32(1)
+  token.txHash = Bytes.empty()
+  token.blockNumber = BigInt.fromI32(1)
+  token.blockTimestamp = BigInt.fromI32(1)
+  token.save()
+  return token
+}
+
+function mockWyvernProxy(account: Address, proxy: Address): void {
+  createMockedFunction(
+    WYVERN_PROXY_REGISTRY_ADDRESS,
+    "proxies",
+    "proxies(address):(address)"
+  )
+    .withArgs([ethereum.Value.fromAddress(account)])
+    .returns([ethereum.Value.fromAddress(proxy)])
+}
+
+// Alice sells token 1 to Bob, then Carol sells tokens 2 and 3 to Dave in a bundle.
+// Token 4 is moved by another contract call between the two orders and isn't sold.
+function createSalesLogs(): Array<ethereum.Log> {
+  let logs = new Array<ethereum.Log>()
+  logs.push(createTransferLog(alice, bob, BigInt.fromI32(1), 0))
+  logs.push(createOrdersMatchedLog(alice, bob, BigInt.fromI32(100), 1))
+  logs.push(createTransferLog(carol, dave, BigInt.fromI32(2), 2))
+  logs.push(createTransferLog(alice, carol, BigInt.fromI32(4), 3))
+  logs.push(createTransferLog(carol, dave, BigInt.fromI32(3), 4))
+  logs.push(createOrdersMatchedLog(dave, carol, BigInt.fromI32(300), 5))
+  return logs
+}
+
+describe("handleApproval", () => {
+  beforeEach(() => {
+    createCovenToken(BigInt.fromI32(234), owner)
   })
 
-  afterAll(() => {
+  afterEach(() => {
     clearStore()
   })
 
-  // For more test scenarios, see:
-  // https://thegraph.com/docs/en/developer/matchstick/#write-a-unit-test
+  test("Stores the approved address on the token", () => {
+    handleApproval(createApprovalEvent(owner, approved, BigInt.fromI32(234)))
 
-  test("Approval created and stored", () => {
-    assert.entityCount("Approval", 1)
-
-    // 0xa16081f360e3847006db660bae1c6d1b2e17ec2a is the default address used in newMockEvent() function
     assert.fieldEquals(
-      "Approval",
-      "0xa16081f360e3847006db660bae1c6d1b2e17ec2a-1",
-      "owner",
-      "0x0000000000000000000000000000000000000001"
+      "CovenToken",
+      BigInt.fromI32(234).toHex(),
+      "approved",
+      approved.toHex()
+    )
+  })
+
+  test("Clears the approved address on an approval of the zero address", () => {
+    handleApproval(createApprovalEvent(owner, approved, BigInt.fromI32(234)))
+    handleApproval(
+      createApprovalEvent(
+        owner,
+        Address.fromBytes(ZERO_ADDRESS),
+        BigInt.fromI32(234)
+      )
     )
+
     assert.fieldEquals(
-      "Approval",
-      "0xa16081f360e3847006db660bae1c6d1b2e17ec2a-1",
+      "CovenToken",
+      BigInt.fromI32(234).toHex(),
       "approved",
-      "0x0000000000000000000000000000000000000001"
+      "null"
     )
-    assert.fieldEquals(
-      "Approval",
-      "0xa16081f360e3847006db660bae1c6d1b2e17ec2a-1",
-      "tokenId",
-      "234"
+  })
+
+  test("Ignores approvals of tokens that haven't been indexed", () => {
+    handleApproval(createApprovalEvent(owner, approved, BigInt.fromI32(235)))
+
+    assert.entityCount("CovenToken", 1)
+    assert.notInStore("CovenToken", BigInt.fromI32(235).toHex())
+  })
+})
+
+describe("handleApprovalForAll", () => {
+  beforeEach(() => {
+    mockWyvernProxy(owner, wyvernProxy)
+  })
+
+  afterEach(() => {
+    clearStore()
+  })
+
+  test("Records the grant and flags an unknown operator", () => {
+    handleApprovalForAll(createApprovalForAllEvent(owner, operator, true))
+
+    let id = owner.toHex() + "-" + operator.toHex()
+    assert.fieldEquals("OperatorApproval", id, "approved", "true")
+    assert.fieldEquals("OperatorApproval", id, "changeCount", "1")
+    assert.entityCount("OperatorApprovalChange", 1)
+    assert.fieldEquals("SecurityAlert", id + "-1", "unknownOperator", "true")
+  })
+
+  test("Records the revocation in the history of the approval", () => {
+    let grant = createApprovalForAllEvent(owner, operator, true)
+    handleApprovalForAll(grant)
+
+    let revocation = createApprovalForAllEvent(owner, operator, false)
+    revocation.logIndex = grant.logIndex.plus(BigInt.fromI32(1))
+    handleApprovalForAll(revocation)
+
+    let id = owner.toHex() + "-" + operator.toHex()
+    assert.fieldEquals("OperatorApproval", id, "approved", "false")
+    assert.fieldEquals("OperatorApproval", id, "changeCount", "2")
+    assert.entityCount("OperatorApprovalChange", 2)
+    assert.entityCount("SecurityAlert", 1)
+  })
+
+  test("Doesn't flag a known marketplace operator", () => {
+    handleApprovalForAll(createApprovalForAllEvent(owner, seaportConduit, true))
+
+    assert.entityCount("OperatorApproval", 1)
+    assert.entityCount("SecurityAlert", 0)
+  })
+
+  test("Doesn't flag the Wyvern proxy of the owner", () => {
+    handleApprovalForAll(createApprovalForAllEvent(owner, wyvernProxy, true))
+
+    assert.entityCount("OperatorApproval", 1)
+    assert.entityCount("SecurityAlert", 0)
+  })
+})
+
+describe("normalizeURI", () => {
+  test("Splits ipfs:// URIs, with or without the legacy ipfs/ prefix", () => {
+    let uri = normalizeURI("ipfs://QmHash/1.json")!
+    assert.stringEquals("IPFS", uri.storageProtocol)
+    assert.stringEquals("QmHash", uri.cid)
+    assert.stringEquals("1.json", uri.path)
+    assert.stringEquals("QmHash/1.json", uri.source)
+
+    let legacy = normalizeURI("ipfs://ipfs/QmHash/1.json")!
+    assert.stringEquals("QmHash/1.json", legacy.source)
+  })
+
+  test("Reads the CID of IPFS gateway URLs whatever the host is", () => {
+    let uri = normalizeURI("https://ipfs.io/ipfs/QmHash/1.json")!
+    assert.stringEquals("IPFS", uri.storageProtocol)
+    assert.stringEquals("QmHash/1.json", uri.source)
+    assert.stringEquals("ipfs://QmHash/1.json", uri.canonical)
+  })
+
+  test("Splits ar:// URIs", () => {
+    let uri = normalizeURI("ar://TxId/1.json")!
+    assert.stringEquals("ARWEAVE", uri.storageProtocol)
+    assert.stringEquals("TxId", uri.cid)
+    assert.stringEquals("1.json", uri.path)
+  })
+
+  test("Keeps an empty path for URIs pointing to the root", () => {
+    let uri = normalizeURI("ipfs://QmHash")!
+    assert.stringEquals("", uri.path)
+    assert.stringEquals("QmHash", uri.source)
+  })
+
+  test("Rejects URIs that don't point to IPFS or Arweave", () => {
+    assert.assertNull(normalizeURI("https://example.com/1.json"))
+    assert.assertNull(normalizeURI("ipfs://"))
+    assert.assertNull(normalizeURI(""))
+  })
+})
+
+describe("getSaleSide", () => {
+  test("Is LISTING_FILLED when the maker sent the token", () => {
+    let order = new OrderLog(
+      seller,
+      buyer,
+      Bytes.empty(),
+      Bytes.empty(),
+      BigInt.fromI32(100),
+      BigInt.fromI32(1)
+    )
+    assert.stringEquals("LISTING_FILLED", getSaleSide(order, soldTransfer))
+  })
+
+  test("Is OFFER_ACCEPTED when the maker received the token", () => {
+    let order = new OrderLog(
+      buyer,
+      seller,
+      Bytes.empty(),
+      Bytes.empty(),
+      BigInt.fromI32(100),
+      BigInt.fromI32(1)
     )
+    assert.stringEquals("OFFER_ACCEPTED", getSaleSide(order, soldTransfer))
+  })
+})
+
+describe("Several sales in one receipt", () => {
+  test("Collects only the transfers of each order", () => {
+    let first = findSaleTransfers(
+      createEventWithLogs(createSalesLogs(), 1),
+      BigInt.fromI32(1)
+    )
+    assert.i32Equals(1, first.length)
+    assert.bigIntEquals(BigInt.fromI32(1), first[0].tokenId)
+
+    let bundle = findSaleTransfers(
+      createEventWithLogs(createSalesLogs(), 5),
+      BigInt.fromI32(5)
+    )
+    assert.i32Equals(2, bundle.length)
+    assert.bigIntEquals(BigInt.fromI32(2), bundle[0].tokenId)
+    assert.bigIntEquals(BigInt.fromI32(3), bundle[1].tokenId)
+  })
+
+  test("Pairs every sold transfer with the next OrdersMatched", () => {
+    let first = findPairedOrdersMatched(
+      createEventWithLogs(createSalesLogs(), 0),
+      alice,
+      bob
+    )
+    assert.bigIntEquals(BigInt.fromI32(1), first!.logIndex)
+
+    let second = findPairedOrdersMatched(
+      createEventWithLogs(createSalesLogs(), 2),
+      carol,
+      dave
+    )
+    assert.bigIntEquals(BigInt.fromI32(5), second!.logIndex)
+
+    let third = findPairedOrdersMatched(
+      createEventWithLogs(createSalesLogs(), 4),
+      carol,
+      dave
+    )
+    assert.bigIntEquals(BigInt.fromI32(5), third!.logIndex)
+  })
+
+  test("Doesn't pair a transfer that isn't between the maker and the taker", () => {
+    assert.assertNull(
+      findPairedOrdersMatched(
+        createEventWithLogs(createSalesLogs(), 3),
+        alice,
+        carol
+      )
+    )
+  })
+})
+
+describe("recordMatchedOrders", () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test("Reads each order at its offset in the atomicMatch_ arrays", () => {
+    let call = newMockCall()
+
+    // The buy order takes the first half of every array and the sell order the second half.
+    let addrs = new Array<Address>()
+    for (let i = 0; i < 14; i++) {
+      addrs.push(
+        Address.fromString(
+          "0x00000000000000000000000000000000000001" + (i + 10).toString()
+        )
+      )
+    }
+    let uints = new Array<BigInt>()
+    for (let i = 0; i < 18; i++) {
+      uints.push(BigInt.fromI32(1000 + i))
+    }
+    let enums: Array<i32> = [0, 0, 0, 0, 1, 1, 1, 0]
+
+    // The sale made by the call, sold by the maker of the sell order to the maker of the buy order.
+    let sale = new Sale(call.transaction.hash.toHex() + "-2")
+    sale.token = BigInt.fromI32(1).toHex()
+    sale.tokenId = BigInt.fromI32(1)
+    sale.seller = addrs[8].toHex()
+    sale.buyer = addrs[1].toHex()
+    sale.maker = addrs[8]
+    sale.taker = addrs[1]
+    sale.orderPrice = BigInt.fromI32(100)
+    sale.bundleSize = 1
+    sale.price = BigInt.fromI32(100)
+    sale.buyHash = Bytes.fromHexString("0x11")
+    sale.sellHash = Bytes.fromHexString("0x22")
+    sale.saleSide = "LISTING_FILLED"
+    sale.logIndex = BigInt.fromI32(3)
+    sale.transferLogIndex = BigInt.fromI32(2)
+    sale.txHash = call.transaction.hash
+    sale.blockNumber = call.block.number
+    sale.blockTimestamp = call.block.timestamp
+    sale.save()
+
+    let batch = new SaleBatch(call.transaction.hash.toHex())
+    batch.sales = [sale.id]
+    batch.linkedCount = 0
+    batch.txHash = call.transaction.hash
+    batch.blockNumber = call.block.number
+    batch.blockTimestamp = call.block.timestamp
+    batch.save()
+
+    recordMatchedOrders(call, addrs, uints, enums)
+
+    let buyId = call.transaction.hash.toHex() + "-3-BUY"
+    assert.fieldEquals("Order", buyId, "hash", "0x11")
+    assert.fieldEquals("Order", buyId, "exchange", addrs[0].toHex())
+    assert.fieldEquals("Order", buyId, "maker", addrs[1].toHex())
+    assert.fieldEquals("Order", buyId, "paymentToken", addrs[6].toHex())
+    assert.fieldEquals("Order", buyId, "makerRelayerFee", "1000")
+    assert.fieldEquals("Order", buyId, "basePrice", "1004")
+    assert.fieldEquals("Order", buyId, "salt", "1008")
+    assert.fieldEquals("Order", buyId, "saleKind", "FIXED_PRICE")
+
+    let sellId = call.transaction.hash.toHex() + "-3-SELL"
+    assert.fieldEquals("Order", sellId, "hash", "0x22")
+    assert.fieldEquals("Order", sellId, "exchange", addrs[7].toHex())
+    assert.fieldEquals("Order", sellId, "maker", addrs[8].toHex())
+    assert.fieldEquals("Order", sellId, "paymentToken", addrs[13].toHex())
+    assert.fieldEquals("Order", sellId, "makerRelayerFee", "1009")
+    assert.fieldEquals("Order", sellId, "basePrice", "1013")
+    assert.fieldEquals("Order", sellId, "salt", "1017")
+    assert.fieldEquals("Order", sellId, "saleKind", "DUTCH_AUCTION")
 
-    // More assert options:
-    // https://thegraph.com/docs/en/developer/matchstick/#asserts
+    assert.fieldEquals("SaleBatch", batch.id, "linkedCount", "1")
   })
 })